@@ -1,14 +1,30 @@
 import { useState, useMemo, useRef, useEffect, useCallback } from 'react';
-import { Save, FolderOpen, Moon, Sun } from 'lucide-react';
+import { Save, FolderOpen, Moon, Sun, Undo2, Redo2, Lock, Unlock, MousePointer2, Move, Scissors, Combine } from 'lucide-react';
 import toast, { Toaster } from 'react-hot-toast';
-import { TessellationConfig, TessellationResult } from './lib/types';
-import { generateTessellation, applySeamAllowance, groupByColor } from './lib/tessellation';
+import { TessellationConfig, TessellationResult, NotchStyle, Point } from './lib/types';
+import { generateTessellation, applySeamAllowance, groupByColor, findSlivers, markBoundaryEdges, markNotches } from './lib/tessellation';
+import { DEFAULT_MITER_LIMIT } from './lib/geometry';
+import { colorReport } from './lib/coloring';
+import { findNearestVertex, moveVertex, splitPieceAlongLine, mergePieces } from './lib/editing';
 import { generateFullSVG, downloadSVG } from './lib/svg';
-import { packPolygons, generatePackedSVG, PackedResult, PackingProgress } from './lib/packing';
+import { MachineProfile, loadMachineProfiles, saveMachineProfiles, DEFAULT_MACHINE_PROFILE } from './lib/machine-profiles';
+import { packPolygons, summarizePacking, DEFAULT_PACKING_TIME_LIMIT, generatePackedSVG, generatePackedSheetSVGs, PackedResult, PackingMode, GrainConstraint, PackingProgress, rotationStep, sheetAtHeight, generateGridLabel } from './lib/packing';
+import { PieceLocation, packedPieceAt, locatePackedPiece, movePackedPiece, rotateInPlace, pieceConflicts, findFreePosition } from './lib/packed-editing';
+import { generatePackedDXF, generatePackedSheetDXFs, downloadDXF, DXFUnits, ExportFormat } from './lib/dxf';
+import { generatePackedTemplatePDF, generatePiecesTemplatePDF, PaperSize } from './lib/print-templates';
+import { downloadPDF } from './lib/pdf';
+import { generateAssemblyHTML, downloadAssemblyGuide } from './lib/assembly';
+import { GARMENT_BLOCKS, GarmentBlockName, uploadOutline } from './lib/garment';
+import { estimateYardage, yardageToCSV, downloadCSV, PriceUnit } from './lib/yardage';
 import { savePattern, downloadPattern, uploadPattern } from './lib/pattern-io';
-import { AnyNest } from 'any-nest';
+import { generateSeed } from './lib/random';
+import { History, createHistory, pushHistory, undoHistory, redoHistory, jumpToHistory, describeConfigChange } from './lib/history';
+import { formatFabricLength, formatFabricArea } from './lib/units';
+import { createZip, downloadZip } from './lib/zip';
+import { Remnant, loadRemnants, saveRemnants, remnantsFromWaste, uploadRemnant } from './lib/remnants';
 import { QuiltSidebar } from './components/QuiltSidebar';
 import { PackingSidebar } from './components/PackingSidebar';
+import { SummarySidebar, PackAllProgress } from './components/SummarySidebar';
 import './App.css';
 
 /**
@@ -48,36 +64,131 @@ const generateEqualProbabilities = (count: number): number[] => {
 const DEFAULT_COLORS = 3;
 
 const DEFAULT_CONFIG: TessellationConfig = {
+  tiling: 'brick',
   rows: 6,
   cols: 9,
   squareSize: 50, // mm
   colors: DEFAULT_COLORS,
   splitProbability: 0.4,
   seamAllowance: 6.35, // 1/4 inch in mm
+  seamJoin: 'miter',
+  seamMiterLimit: DEFAULT_MITER_LIMIT,
   offsetAmount: 0.5, // brick pattern offset
   widthVariation: 0.3, // 30% width variation
   heightVariation: 0.2, // 20% height variation
   splitAngleVariation: 0.5, // moderate angle variation
   sameColorProbability: 0.1, // 10% chance of same color adjacency
   colorProbabilities: generateEqualProbabilities(DEFAULT_COLORS),
+  seed: generateSeed(),
 };
 
 const getColorName = (index: number) => `Color ${index + 1}`;
 
-type ViewTab = 'full' | `color-${number}`;
+type ViewTab = 'full' | `color-${number}` | 'summary';
+
+/**
+ * Everything an undo step restores
+ */
+interface DesignSnapshot {
+  config: TessellationConfig;
+  palette: string[];
+  directionalColors: boolean[];
+  colorOverrides: Map<string, number>;
+  loadedTessellation: TessellationResult | null;
+  garmentBlock: GarmentBlockName | 'custom' | 'none';
+  lockedPieceIds: Set<string>;
+}
+
+/**
+ * What a click or drag on the full pattern does: recolor (and lock) pieces,
+ * drag corners, split a piece along a line or merge two pieces
+ */
+type EditTool = 'color' | 'vertex' | 'split' | 'merge';
+
+/**
+ * How close to a corner a press has to be to grab it, in screen pixels
+ */
+const VERTEX_PICK_RADIUS = 8;
+
+/**
+ * Pattern coordinates (mm) under a point on screen, found through the transform
+ * of the full-pattern SVG's content group, and how many pixels a mm covers
+ */
+const screenToPattern = (container: HTMLElement, clientX: number, clientY: number): { point: Point; pxPerMm: number } | null => {
+  const group = container.querySelector<SVGGElement>('svg > g');
+  const matrix = group?.getScreenCTM();
+  if (!matrix) return null;
+  const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+  return { point: { x: point.x, y: point.y }, pxPerMm: Math.hypot(matrix.a, matrix.b) };
+};
+
+/**
+ * Rotation step for pieces that may turn to any angle, in degrees
+ */
+const FREE_ROTATION_STEP = 15;
+
+/**
+ * A packed piece being dragged: where it started, the press point and the
+ * piece's position in the coordinates of the stacked sheets, and where it
+ * would land (null until it moves)
+ */
+interface PackedDrag {
+  colorIndex: number;
+  from: PieceLocation;
+  start: Point;
+  origin: Point;
+  to: { sheet: number; x: number; y: number; rotation: number } | null;
+}
+
+/**
+ * Why a piece can't go where it was put, or null if it can
+ */
+const conflictMessage = ({ outside, overlaps }: { outside: boolean; overlaps: string[] }): string | null => {
+  if (outside) return 'The piece would run off the fabric';
+  if (overlaps.length > 0) return `The piece would overlap ${overlaps.length} other piece${overlaps.length === 1 ? '' : 's'}`;
+  return null;
+};
+
+/**
+ * Keyboard shortcuts are left to the browser while typing in these
+ */
+const isTextEntry = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target.tagName === 'TEXTAREA') return true;
+  return target.tagName === 'INPUT' && ['text', 'number', 'search', 'email', 'url'].includes((target as HTMLInputElement).type);
+};
 
 function App() {
   const [config, setConfig] = useState<TessellationConfig>(DEFAULT_CONFIG);
   const [showSeamAllowance, setShowSeamAllowance] = useState(false);
   const [collapsedSections, setCollapsedSections] = useState<Record<string, boolean>>({});
   const [palette, setPalette] = useState<string[]>(() => generateInitialPalette(DEFAULT_COLORS));
+  const [directionalColors, setDirectionalColors] = useState<boolean[]>(() => Array(DEFAULT_COLORS).fill(false));
+  const [fabricPrices, setFabricPrices] = useState<number[]>(() => Array(DEFAULT_COLORS).fill(0));
+  const [priceUnit, setPriceUnit] = useState<PriceUnit>('metre');
   const [packingSpacing, setPackingSpacing] = useState(7.5); // mm
   const [maxPackingIterations, setMaxPackingIterations] = useState(100);
+  const [packingTimeLimit, setPackingTimeLimit] = useState(DEFAULT_PACKING_TIME_LIMIT);
   const [activeTab, setActiveTab] = useState<ViewTab>('full');
   const [sheetWidth, _setSheetWidth] = useState(900); // mm
   const [sheetHeight, _setSheetHeight] = useState(550); // mm
+  const [packingMode, _setPackingMode] = useState<PackingMode>('sheets');
+  const [boltWidth, _setBoltWidth] = useState(1100); // mm
+  const [grainConstraint, _setGrainConstraint] = useState<GrainConstraint>('none');
   const [showPackedLabels, setShowPackedLabels] = useState(true);
   const [showPackedSewingLines, setShowPackedSewingLines] = useState(true);
+  const [showPackedGrainlines, setShowPackedGrainlines] = useState(true);
+  const [packedNotchStyle, setPackedNotchStyle] = useState<NotchStyle>('none');
+  const [machineProfiles, setMachineProfiles] = useState<MachineProfile[]>(loadMachineProfiles);
+  const [remnants, setRemnants] = useState<Remnant[]>(loadRemnants);
+  const [excludedRemnantIds, setExcludedRemnantIds] = useState<Set<string>>(new Set());
+  const [machineProfileId, setMachineProfileId] = useState<string>(() => {
+    return localStorage.getItem('machineProfileId') ?? DEFAULT_MACHINE_PROFILE.id;
+  });
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('svg');
+  const [dxfUnits, setDxfUnits] = useState<DXFUnits>('mm');
+  const [paperSize, setPaperSize] = useState<PaperSize>('letter');
+  const [garmentBlock, setGarmentBlock] = useState<GarmentBlockName | 'custom' | 'none'>('none');
   const [isLoadingPattern, setIsLoadingPattern] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(() => {
     const stored = localStorage.getItem('darkMode');
@@ -85,6 +196,16 @@ function App() {
   });
   const [loadedTessellation, setLoadedTessellation] = useState<TessellationResult | null>(null);
   const [colorOverrides, setColorOverrides] = useState<Map<string, number>>(new Map());
+  const [lockedPieceIds, setLockedPieceIds] = useState<Set<string>>(new Set());
+  const [lockSelection, setLockSelection] = useState<{ x1: number; y1: number; x2: number; y2: number } | null>(null);
+  const [editTool, setEditTool] = useState<EditTool>('color');
+  const [vertexDrag, setVertexDrag] = useState<{ from: Point; to: Point } | null>(null);
+  const [splitLine, setSplitLine] = useState<{ x1: number; y1: number; x2: number; y2: number } | null>(null);
+  const [mergeFirstId, setMergeFirstId] = useState<string | null>(null);
+  // Pieces are spread apart in the seam allowance view, so only recoloring works there
+  const activeTool: EditTool = showSeamAllowance ? 'color' : editTool;
+  // Set when a drag ends, so the click that follows doesn't also act
+  const suppressClickRef = useRef(false);
   const [colorPickerState, setColorPickerState] = useState<{
     visible: boolean;
     pieceId: string | null;
@@ -92,24 +213,74 @@ function App() {
     y: number;
   }>({ visible: false, pieceId: null, x: 0, y: 0 });
 
+  // Undo history of the design: every change to the snapshot is recorded under
+  // the label the handler that caused it left in historyLabelRef. Continuous
+  // edits also leave a merge key, so a slider drag is one step.
+  const designSnapshot = useMemo<DesignSnapshot>(() => ({
+    config,
+    palette,
+    directionalColors,
+    colorOverrides,
+    loadedTessellation,
+    garmentBlock,
+    lockedPieceIds,
+  }), [config, palette, directionalColors, colorOverrides, loadedTessellation, garmentBlock, lockedPieceIds]);
+  const [history, setHistory] = useState<History<DesignSnapshot>>(() => createHistory(designSnapshot));
+  const historyLabelRef = useRef<string | null>(null);
+  const historyMergeKeyRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const label = historyLabelRef.current ?? 'Edit';
+    const mergeKey = historyMergeKeyRef.current ?? undefined;
+    historyLabelRef.current = null;
+    historyMergeKeyRef.current = null;
+    // Restoring an entry makes the snapshot equal to the present one, which pushHistory ignores
+    setHistory(prev => pushHistory(prev, label, designSnapshot, mergeKey));
+  }, [designSnapshot]);
+
   // Apply dark mode class and persist preference
   useEffect(() => {
     document.documentElement.classList.toggle('dark-mode', isDarkMode);
     localStorage.setItem('darkMode', JSON.stringify(isDarkMode));
   }, [isDarkMode]);
 
+  // Persist laser profiles and the selected one
+  useEffect(() => {
+    saveMachineProfiles(machineProfiles);
+  }, [machineProfiles]);
+
+  // Persist the remnant library
+  useEffect(() => {
+    saveRemnants(remnants);
+  }, [remnants]);
+
+  useEffect(() => {
+    localStorage.setItem('machineProfileId', machineProfileId);
+  }, [machineProfileId]);
+
+  const machineProfile = machineProfiles.find(profile => profile.id === machineProfileId) ?? DEFAULT_MACHINE_PROFILE;
+
   const toggleDarkMode = () => {
     setIsDarkMode(!isDarkMode);
   };
 
   // Generate base tessellation (without seam allowance)
+  // Pieces locked at the last regenerate that are still locked. Only these are
+  // put back, so unlocking one lets it change while locking more changes nothing.
+  // The layout depends on lockedPieceIds only through this key.
+  const restoredLockIds = (config.lockedPieces ?? [])
+    .filter(piece => lockedPieceIds.has(piece.id))
+    .map(piece => piece.id)
+    .join(',');
+
   const baseTessellation = useMemo(() => {
     // If we have a loaded tessellation, use it instead of generating
     if (loadedTessellation) {
       return loadedTessellation;
     }
-    return generateTessellation(config);
-  }, [config, loadedTessellation]);
+    const lockedPieces = config.lockedPieces?.filter(piece => lockedPieceIds.has(piece.id));
+    return generateTessellation({ ...config, lockedPieces: lockedPieces?.length ? lockedPieces : undefined });
+  }, [config, loadedTessellation, restoredLockIds]);
 
   // Apply color overrides to tessellation
   const tessellationWithOverrides = useMemo(() => {
@@ -128,17 +299,34 @@ function App() {
   }, [baseTessellation, colorOverrides]);
 
   // Apply seam allowance if needed (doesn't regenerate the pattern)
+  // A corner being dragged is shown moved before the edit is committed
   const tessellation = useMemo(() => {
-    return showSeamAllowance ? applySeamAllowance(tessellationWithOverrides) : tessellationWithOverrides;
-  }, [tessellationWithOverrides, showSeamAllowance]);
+    const edited = vertexDrag
+      ? moveVertex(tessellationWithOverrides, vertexDrag.from, vertexDrag.to) ?? tessellationWithOverrides
+      : tessellationWithOverrides;
+    return showSeamAllowance ? applySeamAllowance(edited) : edited;
+  }, [tessellationWithOverrides, showSeamAllowance, vertexDrag]);
 
   const svg = useMemo(() => {
     return generateFullSVG(tessellation, palette, {
       showSeamAllowance,
       baseTessellation: showSeamAllowance ? baseTessellation : undefined,
       units: 'mm',
+      lockedPieceIds,
+      showVertices: activeTool === 'vertex',
+      selectedPieceId: activeTool === 'merge' ? mergeFirstId ?? undefined : undefined,
     });
-  }, [tessellation, palette, showSeamAllowance, baseTessellation]);
+  }, [tessellation, palette, showSeamAllowance, baseTessellation, lockedPieceIds, activeTool, mergeFirstId]);
+
+  // Pieces too narrow to sew, reported in the sidebar
+  const slivers = useMemo(() => {
+    return findSlivers(tessellationWithOverrides);
+  }, [tessellationWithOverrides]);
+
+  // Area share per color against its target, and same-color neighbours, reported in the sidebar
+  const colorDistribution = useMemo(() => {
+    return colorReport(tessellationWithOverrides.pieces, config.colors, config.colorProbabilities);
+  }, [tessellationWithOverrides, config.colors, config.colorProbabilities]);
 
   const colorGroups = useMemo(() => {
     return groupByColor(tessellation);
@@ -146,8 +334,55 @@ function App() {
 
   // Generate packed layouts for each color
   const [packedLayouts, setPackedLayouts] = useState<Map<number, PackedResult>>(new Map());
+  // Counts how often the layouts were thrown away, so runs started before then don't write theirs back
+  const packedLayoutsGenerationRef = useRef(0);
   const [packingProgress, setPackingProgress] = useState<Map<number, PackingProgress>>(new Map());
-  const nestersRef = useRef<Map<number, AnyNest>>(new Map());
+  const [packAllProgress, setPackAllProgress] = useState<PackAllProgress | null>(null);
+  const packAllCancelledRef = useRef(false);
+  const [packedSelection, setPackedSelection] = useState<{ colorIndex: number; pieceId: string } | null>(null);
+  const [packedDrag, setPackedDrag] = useState<PackedDrag | null>(null);
+
+  // Layout shown while a piece is dragged, with empty sheets kept so the stack doesn't jump
+  const packedDragPreview = useMemo(() => {
+    const packed = packedDrag && packedLayouts.get(packedDrag.colorIndex);
+    if (!packed || !packedDrag.to) return null;
+    return movePackedPiece(packed, packedDrag.from, packedDrag.to, true);
+  }, [packedDrag, packedLayouts]);
+
+  // The dragged piece and whatever it runs into, highlighted live
+  const packedDragConflicts = useMemo(() => {
+    if (!packedDrag?.to || !packedDragPreview) return new Set<string>();
+    const { from, to } = packedDrag;
+    const index = to.sheet === from.sheet ? from.index : packedDragPreview.sheets[to.sheet].pieces.length - 1;
+    const { outside, overlaps } = pieceConflicts(packedDragPreview, { sheet: to.sheet, index });
+    const id = packedDragPreview.sheets[to.sheet].pieces[index].piece.id;
+    return new Set(outside || overlaps.length > 0 ? [id, ...overlaps] : []);
+  }, [packedDrag, packedDragPreview]);
+
+  // Sheets, waste and cut length per packed color, for the cutting summary
+  const packingSummaries = useMemo(() => {
+    return new Map(Array.from(packedLayouts.entries()).map(([colorIndex, packed]) => [colorIndex, summarizePacking(packed)]));
+  }, [packedLayouts]);
+
+  // Fabric shopping list: uses packed lengths where a color has been packed, otherwise estimates from area
+  const yardage = useMemo(() => {
+    return estimateYardage(groupByColor(tessellationWithOverrides), {
+      seamAllowance: config.seamAllowance,
+      boundaryAllowance: config.boundaryAllowance,
+      seamJoin: config.seamJoin,
+      miterLimit: config.seamMiterLimit,
+      boltWidth,
+      prices: fabricPrices,
+      priceUnit,
+      packedLayouts,
+    });
+  }, [tessellationWithOverrides, config.seamAllowance, config.boundaryAllowance, config.seamJoin, config.seamMiterLimit, boltWidth, fabricPrices, priceUnit, packedLayouts]);
+  const packingControllersRef = useRef<Map<number, AbortController>>(new Map());
+
+  const clearPackedLayouts = () => {
+    packedLayoutsGenerationRef.current++;
+    setPackedLayouts(new Map());
+  };
   const toastTimerRef = useRef<number | null>(null);
 
   // Debounced toast notification for setting changes
@@ -160,7 +395,19 @@ function App() {
     }, 2000);
   }, []);
 
-  const updateConfig = (partial: Partial<TessellationConfig>) => {
+  // Layouts packed from other pieces (regenerated, recolored, undone) would
+  // misstate the cut and the yardage, and runs still going would write them back
+  useEffect(() => {
+    if (packedLayouts.size === 0 && packingControllersRef.current.size === 0) return;
+    clearPackedLayouts();
+    if (packedLayouts.size > 0) {
+      debouncedToast('Pieces changed. Please re-pack colors.');
+    }
+  }, [tessellationWithOverrides]);
+
+  const updateConfig =(partial: Partial<TessellationConfig>) => {
+    historyLabelRef.current = describeConfigChange(partial);
+    historyMergeKeyRef.current = historyLabelRef.current;
     setConfig(prev => {
       const newConfig = { ...prev, ...partial };
 
@@ -189,19 +436,99 @@ function App() {
         }
 
         setPalette(newPalette);
+        setDirectionalColors(prevDirectional => Array.from(
+          { length: partial.colors! },
+          (_, i) => prevDirectional[i] ?? false
+        ));
+        setFabricPrices(prevPrices => Array.from(
+          { length: partial.colors! },
+          (_, i) => prevPrices[i] ?? 0
+        ));
         newConfig.colorProbabilities = newProbs;
       }
 
       // If seam allowance changed, clear packed layouts (they need to be repacked)
-      if (partial.seamAllowance !== undefined && partial.seamAllowance !== prev.seamAllowance) {
-        setPackedLayouts(new Map());
+      if ((partial.seamAllowance !== undefined && partial.seamAllowance !== prev.seamAllowance) ||
+          ('boundaryAllowance' in partial && partial.boundaryAllowance !== prev.boundaryAllowance)) {
+        clearPackedLayouts();
         debouncedToast('Seam allowance changed. Please re-pack colors.');
       }
 
+      // Same for the shape of the seam allowance corners
+      if ((partial.seamJoin !== undefined && partial.seamJoin !== prev.seamJoin) ||
+          (partial.seamMiterLimit !== undefined && partial.seamMiterLimit !== prev.seamMiterLimit)) {
+        clearPackedLayouts();
+        debouncedToast('Seam corners changed. Please re-pack colors.');
+      }
+
       return newConfig;
     });
   };
 
+  /**
+   * Put the design back to a history entry
+   */
+  const restoreSnapshot = (snapshot: DesignSnapshot) => {
+    const current = designSnapshot;
+    setConfig(snapshot.config);
+    setPalette(snapshot.palette);
+    setDirectionalColors(snapshot.directionalColors);
+    setColorOverrides(snapshot.colorOverrides);
+    setLoadedTessellation(snapshot.loadedTessellation);
+    setGarmentBlock(snapshot.garmentBlock);
+    setLockedPieceIds(snapshot.lockedPieceIds);
+    setFabricPrices(prevPrices => snapshot.palette.map((_, i) => prevPrices[i] ?? 0));
+    setColorPickerState({ visible: false, pieceId: null, x: 0, y: 0 });
+
+    // Layouts packed with another seam allowance or rotation rule no longer fit
+    if (snapshot.config.seamAllowance !== current.config.seamAllowance ||
+        snapshot.config.boundaryAllowance !== current.config.boundaryAllowance ||
+        snapshot.config.seamJoin !== current.config.seamJoin ||
+        snapshot.config.seamMiterLimit !== current.config.seamMiterLimit ||
+        snapshot.directionalColors !== current.directionalColors) {
+      clearPackedLayouts();
+      debouncedToast('Seam or directional settings changed. Please re-pack colors.');
+    }
+  };
+
+  const applyHistory = (next: History<DesignSnapshot>) => {
+    if (next === history || next.present === history.present) return;
+    setHistory(next);
+    restoreSnapshot(next.present.state);
+  };
+
+  const handleUndo = () => applyHistory(undoHistory(history));
+  const handleRedo = () => applyHistory(redoHistory(history));
+  const handleJumpToHistory = (index: number) => applyHistory(jumpToHistory(history, index));
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey || isTextEntry(event.target)) return;
+
+      // R / Shift+R turns the selected packed piece
+      if (!(event.ctrlKey || event.metaKey)) {
+        if (event.key.toLowerCase() === 'r' && packedSelection && activeTab === `color-${packedSelection.colorIndex}`) {
+          event.preventDefault();
+          handleRotatePackedPiece(packedSelection.colorIndex, event.shiftKey ? -1 : 1);
+        }
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && !event.shiftKey)) {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const updateColorProbability = (colorIndex: number, value: number) => {
     const newProbabilities = [...config.colorProbabilities];
     newProbabilities[colorIndex] = value;
@@ -226,13 +553,100 @@ function App() {
       const packed = packedLayouts.get(colorIndex);
       if (!packed) return;
 
+      const baseName = `tessellation-${getColorName(colorIndex).toLowerCase().replace(' ', '-')}-packed`;
+
+      if (exportFormat === 'dxf') {
+        const packedDxf = generatePackedDXF(packed, {
+          units: dxfUnits,
+          showLabels: showPackedLabels,
+          showSewingLines: showPackedSewingLines
+        });
+        downloadDXF(packedDxf, `${baseName}.dxf`);
+        return;
+      }
+
       const packedSvg = generatePackedSVG(packed, getColorName(colorIndex), {
         units: 'mm',
         showLabels: showPackedLabels,
+        showSewingLines: showPackedSewingLines,
+        showGrainlines: showPackedGrainlines,
+        notchStyle: packedNotchStyle,
+        profile: machineProfile
+      });
+      downloadSVG(packedSvg, `${baseName}.svg`);
+    }
+  };
+
+  const handleDownloadSheets = () => {
+    if (activeTab === 'full') return;
+
+    const colorIndex = parseInt(activeTab.split('-')[1]);
+    const packed = packedLayouts.get(colorIndex);
+    if (!packed) return;
+
+    const baseName = `tessellation-${getColorName(colorIndex).toLowerCase().replace(' ', '-')}`;
+
+    if (exportFormat === 'dxf') {
+      const sheetDxfs = generatePackedSheetDXFs(packed, {
+        units: dxfUnits,
+        showLabels: showPackedLabels,
         showSewingLines: showPackedSewingLines
       });
-      downloadSVG(packedSvg, `tessellation-${getColorName(colorIndex).toLowerCase().replace(' ', '-')}-packed.svg`);
+      sheetDxfs.forEach((sheetDxf, index) => {
+        downloadDXF(sheetDxf, `${baseName}-sheet-${index + 1}.dxf`);
+      });
+      return;
+    }
+
+    const sheetSvgs = generatePackedSheetSVGs(packed, getColorName(colorIndex), {
+      units: 'mm',
+      showLabels: showPackedLabels,
+      showSewingLines: showPackedSewingLines,
+      showGrainlines: showPackedGrainlines,
+      notchStyle: packedNotchStyle,
+      profile: machineProfile
+    });
+    sheetSvgs.forEach((sheetSvg, index) => {
+      downloadSVG(sheetSvg, `${baseName}-sheet-${index + 1}.svg`);
+    });
+  };
+
+  const handlePrintTemplates = () => {
+    if (activeTab === 'full') return;
+
+    const colorIndex = parseInt(activeTab.split('-')[1]);
+    const colorName = getColorName(colorIndex);
+    const packed = packedLayouts.get(colorIndex);
+    const printOptions = {
+      paperSize,
+      showLabels: showPackedLabels,
+      showSewingLines: showPackedSewingLines,
+      boundaryAllowance: config.boundaryAllowance,
+      seamJoin: config.seamJoin,
+      miterLimit: config.seamMiterLimit
+    };
+
+    // Print the packed layout if there is one, otherwise the color's pieces laid out in rows
+    let pdf: string;
+    if (packed) {
+      pdf = generatePackedTemplatePDF(packed, `${colorName} templates`, printOptions);
+    } else {
+      const pieces = groupByColor(tessellationWithOverrides).get(colorIndex);
+      if (!pieces) return;
+      pdf = generatePiecesTemplatePDF(pieces, config.seamAllowance, `${colorName} templates`, printOptions);
     }
+
+    downloadPDF(pdf, `tessellation-${colorName.toLowerCase().replace(' ', '-')}-templates-${paperSize}.pdf`);
+  };
+
+  const handleExportShoppingList = () => {
+    const colorNames = palette.map((_, i) => getColorName(i));
+    downloadCSV(yardageToCSV(yardage, colorNames, palette), 'tessellation-shopping-list.csv');
+  };
+
+  const handleDownloadAssemblyGuide = () => {
+    const html = generateAssemblyHTML(tessellationWithOverrides, palette);
+    downloadAssemblyGuide(html, 'tessellation-assembly-guide.html');
   };
 
   // Removed - not currently used
@@ -248,25 +662,180 @@ function App() {
   const updatePaletteColor = (colorIndex: number, newColor: string) => {
     const newPalette = [...palette];
     newPalette[colorIndex] = newColor;
+    historyLabelRef.current = `${getColorName(colorIndex)} color`;
+    historyMergeKeyRef.current = historyLabelRef.current;
     setPalette(newPalette);
   };
 
+  const updateDirectionalColor = (colorIndex: number, directional: boolean) => {
+    const newDirectional = [...directionalColors];
+    newDirectional[colorIndex] = directional;
+    historyLabelRef.current = `${getColorName(colorIndex)} directional`;
+    setDirectionalColors(newDirectional);
+
+    // Allowed rotations changed, so this color's layout is stale
+    // and a run still nesting it with the old rotations is dropped
+    packingControllersRef.current.get(colorIndex)?.abort();
+    packingControllersRef.current.delete(colorIndex);
+    if (packedLayouts.has(colorIndex)) {
+      setPackedLayouts(prev => {
+        const newMap = new Map(prev);
+        newMap.delete(colorIndex);
+        return newMap;
+      });
+      debouncedToast(`${getColorName(colorIndex)} directional setting changed. Please re-pack it.`);
+    }
+  };
+
+  const updateFabricPrice = (colorIndex: number, price: number) => {
+    const newPrices = [...fabricPrices];
+    newPrices[colorIndex] = price;
+    setFabricPrices(newPrices);
+  };
+
   const handleRegenerateTessellation = () => {
+    // Locked pieces are kept as they look now, overrides included
+    const lockedPieces = tessellationWithOverrides.pieces.filter(piece => lockedPieceIds.has(piece.id));
+    historyLabelRef.current = lockedPieces.length > 0 ? 'Regenerate unlocked pieces' : 'Regenerate';
     // Clear any loaded tessellation so we regenerate from config
     setLoadedTessellation(null);
     // Clear color overrides
     setColorOverrides(new Map());
-    // Force regeneration by creating new config object
-    setConfig({ ...config });
+    setLockedPieceIds(new Set(lockedPieces.map(piece => piece.id)));
+    // Roll a new seed so the layout changes. With locks the lattice geometry
+    // stays on the old seed so the locked pieces still fit.
+    setConfig(lockedPieces.length > 0
+      ? { ...config, seed: generateSeed(), layoutSeed: config.layoutSeed ?? config.seed, lockedPieces }
+      : { ...config, seed: generateSeed(), layoutSeed: undefined, lockedPieces: undefined });
+  };
+
+  // Locks only take effect on the next regenerate, so locking doesn't change the layout
+  const updateLocks = (next: Set<string>, label: string) => {
+    historyLabelRef.current = label;
+    setLockedPieceIds(next);
+  };
+
+  const setPiecesLocked = (pieceIds: string[], locked: boolean, label: string) => {
+    const next = new Set(lockedPieceIds);
+    for (const id of pieceIds) {
+      if (locked) next.add(id);
+      else next.delete(id);
+    }
+    updateLocks(next, label);
+  };
+
+  const handleToggleLockPiece = (pieceId: string) => {
+    const locked = !lockedPieceIds.has(pieceId);
+    setPiecesLocked([pieceId], locked, locked ? 'Lock piece' : 'Unlock piece');
+    setColorPickerState({ visible: false, pieceId: null, x: 0, y: 0 });
+  };
+
+  const handleToggleLockRow = (row: number) => {
+    const rowIds = tessellation.pieces.filter(piece => piece.row === row).map(piece => piece.id);
+    const locked = !rowIds.every(id => lockedPieceIds.has(id));
+    setPiecesLocked(rowIds, locked, `${locked ? 'Lock' : 'Unlock'} row ${row + 1}`);
+    setColorPickerState({ visible: false, pieceId: null, x: 0, y: 0 });
+  };
+
+  const handleUnlockAll = () => {
+    updateLocks(new Set(), 'Unlock all');
+  };
+
+  // Shift-drag over the full pattern locks every piece whose centre is inside the rectangle
+  const handleLockSelectionStart = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!event.shiftKey || event.button !== 0) return;
+    event.preventDefault();
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = event.clientX - rect.left;
+    const y = event.clientY - rect.top;
+    setLockSelection({ x1: x, y1: y, x2: x, y2: y });
+  };
+
+  const handleLockSelectionMove = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!lockSelection) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    setLockSelection({ ...lockSelection, x2: event.clientX - rect.left, y2: event.clientY - rect.top });
+  };
+
+  const handleLockSelectionEnd = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!lockSelection) return;
+    const container = event.currentTarget;
+    const rect = container.getBoundingClientRect();
+    const left = rect.left + Math.min(lockSelection.x1, lockSelection.x2);
+    const right = rect.left + Math.max(lockSelection.x1, lockSelection.x2);
+    const top = rect.top + Math.min(lockSelection.y1, lockSelection.y2);
+    const bottom = rect.top + Math.max(lockSelection.y1, lockSelection.y2);
+    setLockSelection(null);
+    if (right - left < 4 && bottom - top < 4) return;
+
+    const selected = tessellation.pieces
+      .filter(piece => {
+        const element = container.querySelector(`[id="${piece.id}"]`);
+        if (!element) return false;
+        const box = element.getBoundingClientRect();
+        const cx = box.left + box.width / 2;
+        const cy = box.top + box.height / 2;
+        return cx >= left && cx <= right && cy >= top && cy <= bottom;
+      })
+      .map(piece => piece.id);
+
+    // The click that ends the drag shouldn't open the color picker
+    suppressClickRef.current = true;
+    if (selected.length > 0) {
+      setPiecesLocked(selected, true, `Lock ${selected.length} pieces`);
+      toast.success(`Locked ${selected.length} piece${selected.length === 1 ? '' : 's'}`);
+    }
+  };
+
+  // Changing the garment outline reshapes every piece, so start from a fresh tessellation
+  const setGarmentOutline = (outline: TessellationConfig['garmentOutline']) => {
+    historyLabelRef.current = 'Garment outline';
+    setLoadedTessellation(null);
+    setColorOverrides(new Map());
+    clearPackedLayouts();
+    setConfig({ ...config, garmentOutline: outline });
+  };
+
+  const handleGarmentBlockChange = (block: GarmentBlockName | 'none') => {
+    setGarmentBlock(block);
+    setGarmentOutline(block === 'none' ? undefined : GARMENT_BLOCKS[block].outline());
+  };
+
+  const handleUploadOutline = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const outline = await uploadOutline(file);
+      setGarmentBlock('custom');
+      setGarmentOutline(outline);
+      toast.success('Garment outline loaded');
+    } catch (error) {
+      console.error('Failed to load outline:', error);
+      toast.error(`Failed to load outline: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    // Reset the file input
+    event.target.value = '';
   };
 
   const handlePieceClick = (event: React.MouseEvent<HTMLDivElement>) => {
     // Only handle clicks on the full pattern view
     if (activeTab !== 'full') return;
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    if (activeTool === 'vertex' || activeTool === 'split') return;
 
     const target = event.target as SVGElement;
     if (target.tagName === 'path' && target.id) {
       const pieceId = target.id.replace('-original', ''); // Handle seam allowance view
+
+      if (activeTool === 'merge') {
+        handleMergeClick(pieceId);
+        return;
+      }
       const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
 
       setColorPickerState({
@@ -278,8 +847,121 @@ function App() {
     }
   };
 
+  /**
+   * Make an edited layout the current one. It is kept as a fixed tessellation
+   * (like a loaded pattern), so it is saved with the pattern and packed as is.
+   */
+  const commitEdit = (edited: TessellationResult, label: string) => {
+    historyLabelRef.current = label;
+    setLoadedTessellation(edited);
+    setColorOverrides(new Map());
+    if (packedLayouts.size > 0) {
+      clearPackedLayouts();
+      debouncedToast('Pieces edited. Please re-pack colors.');
+    }
+  };
+
+  const handleEditToolChange = (tool: EditTool) => {
+    setEditTool(tool);
+    setMergeFirstId(null);
+    setColorPickerState({ visible: false, pieceId: null, x: 0, y: 0 });
+  };
+
+  const handleMergeClick = (pieceId: string) => {
+    if (!mergeFirstId || mergeFirstId === pieceId) {
+      setMergeFirstId(mergeFirstId === pieceId ? null : pieceId);
+      return;
+    }
+
+    const merged = mergePieces(tessellationWithOverrides, mergeFirstId, pieceId);
+    setMergeFirstId(null);
+    if (!merged) {
+      toast.error('Pick two pieces that share an edge');
+      return;
+    }
+    commitEdit(merged, 'Merge pieces');
+  };
+
+  const handlePreviewMouseDown = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (event.shiftKey) {
+      handleLockSelectionStart(event);
+      return;
+    }
+    if (event.button !== 0) return;
+
+    if (activeTool === 'vertex') {
+      const hit = screenToPattern(event.currentTarget, event.clientX, event.clientY);
+      const vertex = hit && findNearestVertex(tessellationWithOverrides, hit.point, VERTEX_PICK_RADIUS / hit.pxPerMm);
+      if (!vertex) return;
+      event.preventDefault();
+      setVertexDrag({ from: vertex, to: vertex });
+    } else if (activeTool === 'split') {
+      event.preventDefault();
+      const rect = event.currentTarget.getBoundingClientRect();
+      const x = event.clientX - rect.left;
+      const y = event.clientY - rect.top;
+      setSplitLine({ x1: x, y1: y, x2: x, y2: y });
+    }
+  };
+
+  const handlePreviewMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (lockSelection) {
+      handleLockSelectionMove(event);
+    } else if (vertexDrag) {
+      const hit = screenToPattern(event.currentTarget, event.clientX, event.clientY);
+      if (!hit) return;
+      // Corners stay inside the pattern's frame
+      const { width, height } = tessellationWithOverrides.bounds;
+      const to = { x: Math.max(0, Math.min(width, hit.point.x)), y: Math.max(0, Math.min(height, hit.point.y)) };
+      setVertexDrag({ ...vertexDrag, to });
+    } else if (splitLine) {
+      const rect = event.currentTarget.getBoundingClientRect();
+      setSplitLine({ ...splitLine, x2: event.clientX - rect.left, y2: event.clientY - rect.top });
+    }
+  };
+
+  const handlePreviewMouseUp = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (lockSelection) {
+      handleLockSelectionEnd(event);
+    } else if (vertexDrag) {
+      const { from, to } = vertexDrag;
+      setVertexDrag(null);
+      suppressClickRef.current = true;
+      if (Math.hypot(to.x - from.x, to.y - from.y) < 0.01) return;
+
+      const moved = moveVertex(tessellationWithOverrides, from, to);
+      if (!moved) {
+        toast.error('A piece would fold over its neighbour there');
+        return;
+      }
+      commitEdit(moved, 'Move corner');
+    } else if (splitLine) {
+      const line = splitLine;
+      setSplitLine(null);
+      suppressClickRef.current = true;
+      if (Math.hypot(line.x2 - line.x1, line.y2 - line.y1) < 4) return;
+
+      const rect = event.currentTarget.getBoundingClientRect();
+      const start = screenToPattern(event.currentTarget, rect.left + line.x1, rect.top + line.y1);
+      const end = screenToPattern(event.currentTarget, rect.left + line.x2, rect.top + line.y2);
+      const split = start && end && splitPieceAlongLine(tessellationWithOverrides, start.point, end.point);
+      if (!split) {
+        toast.error('Draw the split line across the middle of a piece');
+        return;
+      }
+      commitEdit(split, 'Split piece');
+    }
+  };
+
+  const handlePreviewMouseLeave = () => {
+    setLockSelection(null);
+    setVertexDrag(null);
+    setSplitLine(null);
+  };
+
   const handleColorChange = (colorIndex: number) => {
     if (colorPickerState.pieceId) {
+      historyLabelRef.current = `Recolor piece to ${getColorName(colorIndex)}`;
       setColorOverrides(prev => {
         const newMap = new Map(prev);
         newMap.set(colorPickerState.pieceId!, colorIndex);
@@ -304,69 +986,119 @@ function App() {
   // Wrapper functions to clear packed layouts when settings change
   const setSheetWidth = (value: number) => {
     _setSheetWidth(value);
-    setPackedLayouts(new Map());
+    clearPackedLayouts();
     debouncedToast('Sheet width changed. Please re-pack colors.');
   };
 
   const setSheetHeight = (value: number) => {
     _setSheetHeight(value);
-    setPackedLayouts(new Map());
+    clearPackedLayouts();
     debouncedToast('Sheet height changed. Please re-pack colors.');
   };
 
+  const setPackingMode = (value: PackingMode) => {
+    _setPackingMode(value);
+    clearPackedLayouts();
+    debouncedToast('Packing mode changed. Please re-pack colors.');
+  };
+
+  const setBoltWidth = (value: number) => {
+    _setBoltWidth(value);
+    clearPackedLayouts();
+    debouncedToast('Bolt width changed. Please re-pack colors.');
+  };
+
+  const setGrainConstraint = (value: GrainConstraint) => {
+    _setGrainConstraint(value);
+    clearPackedLayouts();
+    debouncedToast('Grain constraint changed. Please re-pack colors.');
+  };
+
   const setPackingSpacingWrapper = (value: number) => {
     setPackingSpacing(value);
-    setPackedLayouts(new Map());
+    clearPackedLayouts();
     debouncedToast('Packing spacing changed. Please re-pack colors.');
   };
 
-  const handlePackColor = async (colorIndex: number) => {
-    console.log('[handlePackColor] Starting pack for color:', colorIndex);
+  /**
+   * @param quiet - skip the success toast, for colors packed by handlePackAll
+   * @param usedRemnantIds - remnants already cut for other colors in the same run, left out
+   * @returns the layout, or null if the color has no pieces or packing failed
+   */
+  const handlePackColor = async (colorIndex: number, quiet: boolean = false, usedRemnantIds: Set<string> = new Set()): Promise<PackedResult | null> => {
     const pieces = colorGroups.get(colorIndex);
-    console.log('[handlePackColor] Pieces found:', pieces?.length);
     if (!pieces) {
-      console.log('[handlePackColor] No pieces found, returning');
-      return;
+      return null;
     }
 
-    console.log('[handlePackColor] Calling packPolygons with:', {
-      sheetWidth,
-      sheetHeight,
-      seamAllowance: config.seamAllowance,
-      spacing: packingSpacing,
-      pieceCount: pieces.length
-    });
+    const controller = new AbortController();
+    packingControllersRef.current.set(colorIndex, controller);
+    // A later run of this color, or a settings change that cleared the layouts, makes this layout stale
+    const generation = packedLayoutsGenerationRef.current;
+    const isCurrent = () =>
+      packingControllersRef.current.get(colorIndex) === controller && packedLayoutsGenerationRef.current === generation;
 
     try {
       const packed = await packPolygons(pieces, {
+        mode: packingMode,
         sheetWidth,
         sheetHeight,
+        boltWidth,
+        grainConstraint,
+        directional: directionalColors[colorIndex] ?? false,
         seamAllowance: config.seamAllowance,
+        boundaryAllowance: config.boundaryAllowance,
+        seamJoin: config.seamJoin,
+        miterLimit: config.seamMiterLimit,
         spacing: packingSpacing,
         maxIterations: maxPackingIterations,
-        onProgress: (progress) => {
-          console.log('[handlePackColor] Progress update:', progress);
+        timeLimit: packingTimeLimit,
+        remnants: remnants.filter(remnant =>
+          !excludedRemnantIds.has(remnant.id) && !usedRemnantIds.has(remnant.id) &&
+          (!remnant.color || remnant.color === palette[colorIndex])
+        ),
+        signal: controller.signal,
+        onProgress: (progress, best) => {
           setPackingProgress(prev => {
             const newMap = new Map(prev);
             newMap.set(colorIndex, progress);
             return newMap;
           });
-        },
-        onNesterCreated: (nester) => {
-          console.log('[handlePackColor] Nester created');
-          nestersRef.current.set(colorIndex, nester);
+          // Stream the best layout so far into the preview
+          if (best && isCurrent()) {
+            setPackedLayouts(prev => {
+              const newMap = new Map(prev);
+              newMap.set(colorIndex, best);
+              return newMap;
+            });
+          }
         }
       });
+      if (!isCurrent()) {
+        return null;
+      }
 
-      console.log('[handlePackColor] Packing complete, result:', packed);
       setPackedLayouts(prev => {
         const newMap = new Map(prev);
         newMap.set(colorIndex, packed);
         return newMap;
       });
 
-      // Show success toast
-      toast.success(`Packing complete! Efficiency: ${packed.efficiency.toFixed(1)}%`);
+      // Show success toast (a stopped run has already shown its own)
+      if (!quiet && !controller.signal.aborted) {
+        if (packed.mode === 'roll') {
+          toast.success(`Packing complete! Length used: ${formatFabricLength(packed.consumedLength ?? 0)}`);
+        } else {
+          const { sheets: sheetCount, remnants: remnantCount } = summarizePacking(packed);
+          const remnantNote = remnantCount > 0 ? ` + ${remnantCount} remnant${remnantCount === 1 ? '' : 's'}` : '';
+          toast.success(`Packing complete! ${sheetCount} sheet${sheetCount === 1 ? '' : 's'}${remnantNote}, efficiency: ${packed.efficiency.toFixed(1)}%`);
+        }
+      }
+
+      if (packed.unplacedPieces.length > 0) {
+        toast.error(`${packed.unplacedPieces.length} piece(s) could not fit on a sheet. Try a larger sheet size.`);
+      }
+      return packed;
     } catch (error) {
       console.error('[handlePackColor] Packing error:', error);
       // Clear progress on error
@@ -378,22 +1110,161 @@ function App() {
 
       // Show error toast
       toast.error(`Packing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    } finally {
+      if (packingControllersRef.current.get(colorIndex) === controller) {
+        packingControllersRef.current.delete(colorIndex);
+      }
     }
   };
 
+  // Keep what is left of each sheet in the remnant library; remnants the layout cut from are used up
+  const handleSaveOffcuts = (colorIndex: number) => {
+    const packed = packedLayouts.get(colorIndex);
+    if (!packed) return;
+
+    let freshSheet = 0;
+    const offcuts = packed.sheets.flatMap(sheet => {
+      const name = sheet.remnant
+        ? `${sheet.remnant.name} offcut`
+        : `${getColorName(colorIndex)} ${packed.mode === 'roll' ? 'bolt' : `sheet ${++freshSheet}`} offcut`;
+      return remnantsFromWaste(sheet.waste, name, palette[colorIndex]);
+    });
+    const usedIds = new Set(packed.sheets.flatMap(sheet => (sheet.remnant ? [sheet.remnant.id] : [])));
+
+    setRemnants([...remnants.filter(remnant => !usedIds.has(remnant.id)), ...offcuts]);
+    if (offcuts.length > 0) {
+      toast.success(`Saved ${offcuts.length} offcut${offcuts.length === 1 ? '' : 's'} to the remnant library`);
+    } else {
+      toast('No offcuts large enough to keep');
+    }
+  };
+
+  const handleImportRemnant = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const remnant = await uploadRemnant(file);
+      setRemnants([...remnants, remnant]);
+      toast.success(`Remnant "${remnant.name}" added`);
+    } catch (error) {
+      console.error('Failed to load remnant:', error);
+      toast.error(`Failed to load remnant: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    // Reset the file input
+    event.target.value = '';
+  };
+
+  // Keep a hand-adjusted layout unless the piece that moved runs into something
+  const commitPackedEdit = (colorIndex: number, edited: PackedResult, pieceId: string) => {
+    const location = locatePackedPiece(edited, pieceId);
+    const message = location && conflictMessage(pieceConflicts(edited, location));
+    if (message) {
+      toast.error(message);
+      return;
+    }
+    setPackedLayouts(prev => {
+      const newMap = new Map(prev);
+      newMap.set(colorIndex, edited);
+      return newMap;
+    });
+  };
+
+  // Turns that keep a piece within the grain constraint; pieces free to turn go in FREE_ROTATION_STEP steps
+  const packedRotationStep = (colorIndex: number) => {
+    const step = rotationStep(grainConstraint, directionalColors[colorIndex] ?? false);
+    return step < FREE_ROTATION_STEP ? FREE_ROTATION_STEP : step;
+  };
+
+  const selectedPackedLocation = (colorIndex: number): PieceLocation | null => {
+    const packed = packedLayouts.get(colorIndex);
+    if (!packed || packedSelection?.colorIndex !== colorIndex) return null;
+    return locatePackedPiece(packed, packedSelection.pieceId);
+  };
+
+  const handlePackedMouseDown = (event: React.MouseEvent<HTMLDivElement>, colorIndex: number) => {
+    const packed = packedLayouts.get(colorIndex);
+    if (event.button !== 0 || !packed || packingProgress.get(colorIndex)?.isRunning) return;
+
+    const hit = screenToPattern(event.currentTarget, event.clientX, event.clientY);
+    const at = hit ? sheetAtHeight(packed, hit.point.y) : null;
+    const index = hit && at ? packedPieceAt(packed, at.sheet, { x: hit.point.x, y: hit.point.y - at.top }) : -1;
+    if (!hit || !at || index < 0) {
+      setPackedSelection(null);
+      return;
+    }
+
+    event.preventDefault();
+    const piece = packed.sheets[at.sheet].pieces[index];
+    setPackedSelection({ colorIndex, pieceId: piece.piece.id });
+    setPackedDrag({ colorIndex, from: { sheet: at.sheet, index }, start: hit.point, origin: { x: piece.x, y: piece.y + at.top }, to: null });
+  };
+
+  const handlePackedMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
+    const packed = packedDrag && packedLayouts.get(packedDrag.colorIndex);
+    if (!packedDrag || !packed) return;
+
+    const hit = screenToPattern(event.currentTarget, event.clientX, event.clientY);
+    const target = hit && sheetAtHeight(packed, hit.point.y);
+    if (!hit || !target) return;
+
+    const { from, start, origin } = packedDrag;
+    setPackedDrag({
+      ...packedDrag,
+      to: {
+        sheet: target.sheet,
+        x: origin.x + hit.point.x - start.x,
+        y: origin.y + hit.point.y - start.y - target.top,
+        rotation: packed.sheets[from.sheet].pieces[from.index].rotation
+      }
+    });
+  };
+
+  const handlePackedMouseUp = () => {
+    if (!packedDrag) return;
+    const { colorIndex, from, to } = packedDrag;
+    const packed = packedLayouts.get(colorIndex);
+    setPackedDrag(null);
+    if (!packed || !to) return;
+
+    const piece = packed.sheets[from.sheet].pieces[from.index];
+    if (to.sheet === from.sheet && Math.hypot(to.x - piece.x, to.y - piece.y) < 0.01) return;
+    commitPackedEdit(colorIndex, movePackedPiece(packed, from, to), piece.piece.id);
+  };
+
+  const handleRotatePackedPiece = (colorIndex: number, direction: 1 | -1) => {
+    const packed = packedLayouts.get(colorIndex);
+    const location = selectedPackedLocation(colorIndex);
+    const step = packedRotationStep(colorIndex);
+    if (!packed || !location || step >= 360) return;
+
+    const piece = packed.sheets[location.sheet].pieces[location.index];
+    const turned = rotateInPlace(piece, direction * step);
+    commitPackedEdit(colorIndex, movePackedPiece(packed, location, { sheet: location.sheet, ...turned }), piece.piece.id);
+  };
+
+  // Put the selected piece in the left-most free spot of another sheet
+  const handleMovePackedPieceToSheet = (colorIndex: number, sheet: number) => {
+    const packed = packedLayouts.get(colorIndex);
+    const location = selectedPackedLocation(colorIndex);
+    if (!packed || !location || location.sheet === sheet) return;
+
+    const piece = packed.sheets[location.sheet].pieces[location.index];
+    const position = findFreePosition(packed, piece, sheet, packingSpacing);
+    if (!position) {
+      toast.error('No room for the piece on that sheet');
+      return;
+    }
+    commitPackedEdit(colorIndex, movePackedPiece(packed, location, { sheet, ...position, rotation: piece.rotation }), piece.piece.id);
+  };
+
   const handleStopPacking = (colorIndex: number) => {
-    const nester = nestersRef.current.get(colorIndex);
-    if (nester) {
-      nester.stop();
-      // Update progress to show stopped state
-      setPackingProgress(prev => {
-        const newMap = new Map(prev);
-        const current = newMap.get(colorIndex);
-        if (current) {
-          newMap.set(colorIndex, { ...current, isRunning: false });
-        }
-        return newMap;
-      });
+    const controller = packingControllersRef.current.get(colorIndex);
+    if (controller) {
+      // packPolygons resolves with the best layout so far and reports the stopped state
+      controller.abort();
 
       // Show info toast
       toast('Packing stopped', {
@@ -402,9 +1273,62 @@ function App() {
     }
   };
 
+  // Pack every color one after another; one nesting worker at a time keeps the page responsive
+  const handlePackAll = async () => {
+    const colorIndices = Array.from(colorGroups.keys()).sort((a, b) => a - b);
+    packAllCancelledRef.current = false;
+    // A remnant offered to every color can only be cut once per run
+    const usedRemnantIds = new Set<string>();
+    const failed: number[] = [];
+
+    for (const [done, colorIndex] of colorIndices.entries()) {
+      if (packAllCancelledRef.current) break;
+      setPackAllProgress({ done, total: colorIndices.length, colorIndex });
+      const packed = await handlePackColor(colorIndex, true, usedRemnantIds);
+      if (!packed) failed.push(colorIndex);
+      for (const sheet of packed?.sheets ?? []) {
+        if (sheet.remnant) usedRemnantIds.add(sheet.remnant.id);
+      }
+    }
+
+    setPackAllProgress(null);
+    if (packAllCancelledRef.current) return;
+    if (failed.length > 0) {
+      toast.error(`Packed ${colorIndices.length - failed.length} of ${colorIndices.length} colors. Failed: ${failed.map(getColorName).join(', ')}`);
+    } else {
+      toast.success(`Packed all ${colorIndices.length} colors`);
+    }
+  };
+
+  const handleStopPackAll = () => {
+    packAllCancelledRef.current = true;
+    if (packAllProgress) {
+      handleStopPacking(packAllProgress.colorIndex);
+    }
+  };
+
+  const handleDownloadAllPacked = () => {
+    const files = Array.from(packedLayouts.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([colorIndex, packed]) => ({
+        name: `tessellation-${getColorName(colorIndex).toLowerCase().replace(' ', '-')}-packed.svg`,
+        content: generatePackedSVG(packed, getColorName(colorIndex), {
+          units: 'mm',
+          showLabels: showPackedLabels,
+          showSewingLines: showPackedSewingLines,
+          showGrainlines: showPackedGrainlines,
+          notchStyle: packedNotchStyle,
+          profile: machineProfile
+        })
+      }));
+    if (files.length === 0) return;
+
+    downloadZip(createZip(files), 'tessellation-packed.zip');
+  };
+
   const handleSavePattern = () => {
     try {
-      const pattern = savePattern(baseTessellation, palette);
+      const pattern = savePattern(baseTessellation, palette, directionalColors);
       downloadPattern(pattern);
       toast.success('Pattern saved successfully');
     } catch (error) {
@@ -433,19 +1357,39 @@ function App() {
         return piece;
       });
 
+      // Older patterns don't record which edges are on the outer boundary, or notches
+      const piecesWithBoundary = migratedPieces.some(piece => piece.boundaryEdges === undefined)
+        ? markBoundaryEdges(migratedPieces)
+        : migratedPieces;
+      const piecesWithNotches = piecesWithBoundary.some(piece => piece.notches === undefined)
+        ? markNotches(piecesWithBoundary)
+        : piecesWithBoundary;
+
+      // Migrate old patterns that were saved before seeds or tiling types existed
+      const config: TessellationConfig = {
+        ...pattern.config,
+        tiling: pattern.config.tiling ?? 'brick',
+        seed: pattern.config.seed ?? generateSeed(),
+      };
+
       // Restore the config
-      setConfig(pattern.config);
+      historyLabelRef.current = `Load ${file.name}`;
+      setConfig(config);
+      setLockedPieceIds(new Set(config.lockedPieces?.map(piece => piece.id) ?? []));
+      setGarmentBlock(config.garmentOutline ? 'custom' : 'none');
 
-      // Restore the palette
+      // Restore the palette (older files have no directional flags)
       setPalette(pattern.palette);
+      setDirectionalColors(pattern.palette.map((_, i) => pattern.directionalColors?.[i] ?? false));
+      setFabricPrices(prevPrices => pattern.palette.map((_, i) => prevPrices[i] ?? 0));
 
       // Clear color overrides
       setColorOverrides(new Map());
 
       // Restore the exact tessellation with migrated pieces
       setLoadedTessellation({
-        pieces: migratedPieces,
-        config: pattern.config,
+        pieces: piecesWithNotches,
+        config,
         bounds: pattern.bounds,
       });
 
@@ -500,6 +1444,24 @@ function App() {
               Loading pattern...
             </span>
           )}
+          <button
+            className="header-icon-button"
+            onClick={handleUndo}
+            aria-label="Undo"
+            title={history.past.length > 0 ? `Undo ${history.present.label} (Ctrl+Z)` : 'Nothing to undo'}
+            disabled={isLoadingPattern || history.past.length === 0}
+          >
+            <Undo2 size={18} />
+          </button>
+          <button
+            className="header-icon-button"
+            onClick={handleRedo}
+            aria-label="Redo"
+            title={history.future.length > 0 ? `Redo ${history.future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            disabled={isLoadingPattern || history.future.length === 0}
+          >
+            <Redo2 size={18} />
+          </button>
           <button
             className="header-icon-button"
             onClick={handleSavePattern}
@@ -543,12 +1505,46 @@ function App() {
               setPackingSpacing={setPackingSpacingWrapper}
               palette={palette}
               updatePaletteColor={updatePaletteColor}
+              directionalColors={directionalColors}
+              updateDirectionalColor={updateDirectionalColor}
               updateColorProbability={updateColorProbability}
               tessellation={tessellation}
               collapsedSections={collapsedSections}
               toggleSection={toggleSection}
               onRegenerate={handleRegenerateTessellation}
               onDownload={handleDownloadCurrent}
+              onDownloadAssemblyGuide={handleDownloadAssemblyGuide}
+              boltWidth={boltWidth}
+              setBoltWidth={setBoltWidth}
+              fabricPrices={fabricPrices}
+              updateFabricPrice={updateFabricPrice}
+              priceUnit={priceUnit}
+              setPriceUnit={setPriceUnit}
+              yardage={yardage}
+              onExportShoppingList={handleExportShoppingList}
+              garmentBlock={garmentBlock}
+              slivers={slivers}
+              colorDistribution={colorDistribution}
+              onGarmentBlockChange={handleGarmentBlockChange}
+              onUploadOutline={handleUploadOutline}
+              history={history}
+              lockedCount={tessellation.pieces.filter(piece => lockedPieceIds.has(piece.id)).length}
+              onUnlockAll={handleUnlockAll}
+              onJumpToHistory={handleJumpToHistory}
+            />
+          ) : activeTab === 'summary' ? (
+            <SummarySidebar
+              colorIndices={Array.from(colorGroups.keys()).sort((a, b) => a - b)}
+              palette={palette}
+              summaries={packingSummaries}
+              packAllProgress={packAllProgress}
+              packingProgress={packingProgress}
+              maxPackingIterations={maxPackingIterations}
+              collapsedSections={collapsedSections}
+              toggleSection={toggleSection}
+              onPackAll={handlePackAll}
+              onStopPackAll={handleStopPackAll}
+              onDownloadAll={handleDownloadAllPacked}
             />
           ) : (
             <PackingSidebar
@@ -558,16 +1554,34 @@ function App() {
               setPackingSpacing={setPackingSpacingWrapper}
               maxPackingIterations={maxPackingIterations}
               setMaxPackingIterations={setMaxPackingIterations}
+              packingTimeLimit={packingTimeLimit}
+              setPackingTimeLimit={setPackingTimeLimit}
               sheetWidth={sheetWidth}
               setSheetWidth={setSheetWidth}
               sheetHeight={sheetHeight}
               setSheetHeight={setSheetHeight}
+              packingMode={packingMode}
+              setPackingMode={setPackingMode}
+              boltWidth={boltWidth}
+              setBoltWidth={setBoltWidth}
+              grainConstraint={grainConstraint}
+              setGrainConstraint={setGrainConstraint}
               packedLayout={packedLayouts.get(parseInt(activeTab.split('-')[1]))}
+              packedLayouts={packedLayouts}
               colorIndex={parseInt(activeTab.split('-')[1])}
               palette={palette}
+              directional={directionalColors[parseInt(activeTab.split('-')[1])] ?? false}
               collapsedSections={collapsedSections}
               toggleSection={toggleSection}
               onDownload={handleDownloadCurrent}
+              onDownloadSheets={handleDownloadSheets}
+              exportFormat={exportFormat}
+              setExportFormat={setExportFormat}
+              dxfUnits={dxfUnits}
+              setDxfUnits={setDxfUnits}
+              paperSize={paperSize}
+              setPaperSize={setPaperSize}
+              onPrintTemplates={handlePrintTemplates}
               packingProgress={packingProgress.get(parseInt(activeTab.split('-')[1]))}
               onPackColor={() => handlePackColor(parseInt(activeTab.split('-')[1]))}
               onStopPacking={() => handleStopPacking(parseInt(activeTab.split('-')[1]))}
@@ -575,6 +1589,29 @@ function App() {
               setShowPackedLabels={setShowPackedLabels}
               showPackedSewingLines={showPackedSewingLines}
               setShowPackedSewingLines={setShowPackedSewingLines}
+              showPackedGrainlines={showPackedGrainlines}
+              setShowPackedGrainlines={setShowPackedGrainlines}
+              packedNotchStyle={packedNotchStyle}
+              setPackedNotchStyle={setPackedNotchStyle}
+              machineProfiles={machineProfiles}
+              setMachineProfiles={setMachineProfiles}
+              machineProfile={machineProfile}
+              setMachineProfileId={setMachineProfileId}
+              remnants={remnants}
+              setRemnants={setRemnants}
+              excludedRemnantIds={excludedRemnantIds}
+              setExcludedRemnantIds={setExcludedRemnantIds}
+              onSaveOffcuts={() => handleSaveOffcuts(parseInt(activeTab.split('-')[1]))}
+              onImportRemnant={handleImportRemnant}
+              selectedPiece={(() => {
+                const colorIndex = parseInt(activeTab.split('-')[1]);
+                const location = selectedPackedLocation(colorIndex);
+                const piece = location && packedLayouts.get(colorIndex)?.sheets[location.sheet].pieces[location.index];
+                return location && piece ? { label: generateGridLabel(piece.originalPiece), sheet: location.sheet } : undefined;
+              })()}
+              rotationStep={packedRotationStep(parseInt(activeTab.split('-')[1]))}
+              onRotatePiece={(direction) => handleRotatePackedPiece(parseInt(activeTab.split('-')[1]), direction)}
+              onMovePieceToSheet={(sheet) => handleMovePackedPieceToSheet(parseInt(activeTab.split('-')[1]), sheet)}
             />
           )}
         </aside>
@@ -608,12 +1645,64 @@ function App() {
                 />
               </button>
             ))}
+            <button
+              className={activeTab === 'summary' ? 'tab active' : 'tab'}
+              onClick={() => setActiveTab('summary')}
+            >
+              Cutting Summary
+            </button>
           </div>
 
           <div className="preview-content">
+            {activeTab === 'full' && (
+              <div className="edit-toolbar" role="toolbar" aria-label="Edit tools">
+                {([
+                  ['color', MousePointer2, 'Recolor and lock pieces'],
+                  ['vertex', Move, 'Drag corners (neighbouring pieces follow)'],
+                  ['split', Scissors, 'Split a piece: drag a line across it'],
+                  ['merge', Combine, 'Merge: click two pieces that share an edge'],
+                ] as const).map(([tool, Icon, title]) => (
+                  <button
+                    key={tool}
+                    className={activeTool === tool ? 'active' : ''}
+                    onClick={() => handleEditToolChange(tool)}
+                    title={showSeamAllowance && tool !== 'color' ? 'Hide the seam allowance to edit pieces' : title}
+                    aria-label={title}
+                    aria-pressed={activeTool === tool}
+                    disabled={showSeamAllowance && tool !== 'color'}
+                  >
+                    <Icon size={16} />
+                  </button>
+                ))}
+              </div>
+            )}
             {activeTab === 'full' ? (
-              <div className="svg-container" onClick={handlePieceClick} style={{ cursor: 'pointer', position: 'relative' }}>
+              <div
+                className="svg-container"
+                onClick={handlePieceClick}
+                onMouseDown={handlePreviewMouseDown}
+                onMouseMove={handlePreviewMouseMove}
+                onMouseUp={handlePreviewMouseUp}
+                onMouseLeave={handlePreviewMouseLeave}
+                style={{ cursor: activeTool === 'split' ? 'crosshair' : activeTool === 'vertex' ? 'move' : 'pointer', position: 'relative' }}
+              >
                 <div dangerouslySetInnerHTML={{ __html: svg }} />
+                {splitLine && (
+                  <svg className="split-line-overlay">
+                    <line x1={splitLine.x1} y1={splitLine.y1} x2={splitLine.x2} y2={splitLine.y2} />
+                  </svg>
+                )}
+                {lockSelection && (
+                  <div
+                    className="lock-selection"
+                    style={{
+                      left: `${Math.min(lockSelection.x1, lockSelection.x2)}px`,
+                      top: `${Math.min(lockSelection.y1, lockSelection.y2)}px`,
+                      width: `${Math.abs(lockSelection.x2 - lockSelection.x1)}px`,
+                      height: `${Math.abs(lockSelection.y2 - lockSelection.y1)}px`,
+                    }}
+                  />
+                )}
                 {colorPickerState.visible && (
                   <>
                     <div className="color-picker-overlay" onClick={handleCloseColorPicker} />
@@ -639,23 +1728,103 @@ function App() {
                           </button>
                         ))}
                       </div>
+                      {(() => {
+                        const piece = tessellation.pieces.find(p => p.id === colorPickerState.pieceId);
+                        if (!piece) return null;
+                        const rowLocked = tessellation.pieces
+                          .filter(p => p.row === piece.row)
+                          .every(p => lockedPieceIds.has(p.id));
+                        return (
+                          <div className="color-picker-locks">
+                            <button onClick={() => handleToggleLockPiece(piece.id)}>
+                              {lockedPieceIds.has(piece.id) ? <Unlock size={14} /> : <Lock size={14} />}
+                              {lockedPieceIds.has(piece.id) ? 'Unlock piece' : 'Lock piece'}
+                            </button>
+                            <button onClick={() => handleToggleLockRow(piece.row)}>
+                              {rowLocked ? <Unlock size={14} /> : <Lock size={14} />}
+                              {rowLocked ? `Unlock row ${piece.row + 1}` : `Lock row ${piece.row + 1}`}
+                            </button>
+                          </div>
+                        );
+                      })()}
                     </div>
                   </>
                 )}
               </div>
+            ) : activeTab === 'summary' ? (
+              <table className="cutting-summary">
+                <thead>
+                  <tr>
+                    <th>Color</th>
+                    <th>Sheets</th>
+                    <th>Pieces</th>
+                    <th>Efficiency</th>
+                    <th>Waste</th>
+                    <th>Cut Length</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Array.from(colorGroups.keys()).sort((a, b) => a - b).map(colorIndex => {
+                    const summary = packingSummaries.get(colorIndex);
+                    return (
+                      <tr key={colorIndex}>
+                        <td>
+                          <span className="swatch" style={{ backgroundColor: palette[colorIndex] }} />
+                          {getColorName(colorIndex)}
+                        </td>
+                        {summary ? (
+                          <>
+                            <td>
+                              {summary.sheets}
+                              {summary.remnants > 0 && ` + ${summary.remnants} remnant${summary.remnants === 1 ? '' : 's'}`}
+                            </td>
+                            <td>
+                              {summary.placed}
+                              {summary.unplaced > 0 && <span className="unplaced"> ({summary.unplaced} unplaced)</span>}
+                            </td>
+                            <td>{summary.efficiency.toFixed(1)}%</td>
+                            <td>{formatFabricArea(summary.wasteArea)}</td>
+                            <td>{formatFabricLength(summary.cutLength)}</td>
+                          </>
+                        ) : (
+                          <td colSpan={5} className="not-packed">
+                            {packingProgress.get(colorIndex)?.isRunning ? 'Packing…' : 'Not packed yet'}
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
             ) : (
               (() => {
                 const colorIndex = parseInt(activeTab.split('-')[1]);
                 const packed = packedLayouts.get(colorIndex);
                 if (!packed) return null;
 
-                const packedSvg = generatePackedSVG(packed, getColorName(colorIndex), {
+                const dragging = packedDrag?.colorIndex === colorIndex;
+                const packedSvg = generatePackedSVG((dragging && packedDragPreview) || packed, getColorName(colorIndex), {
                   units: 'mm',
                   showLabels: showPackedLabels,
-                  showSewingLines: showPackedSewingLines
+                  showSewingLines: showPackedSewingLines,
+                  showGrainlines: showPackedGrainlines,
+                  notchStyle: packedNotchStyle,
+                  profile: machineProfile,
+                  selectedPieceId: packedSelection?.colorIndex === colorIndex ? packedSelection.pieceId : undefined,
+                  conflictPieceIds: dragging ? packedDragConflicts : undefined
                 });
 
-                return <div className="svg-container" dangerouslySetInnerHTML={{ __html: packedSvg }} />;
+                return (
+                  <div
+                    className="svg-container"
+                    onMouseDown={(event) => handlePackedMouseDown(event, colorIndex)}
+                    onMouseMove={handlePackedMouseMove}
+                    onMouseUp={handlePackedMouseUp}
+                    onMouseLeave={() => setPackedDrag(null)}
+                    style={{ cursor: dragging ? 'grabbing' : 'default' }}
+                    dangerouslySetInnerHTML={{ __html: packedSvg }}
+                  />
+                );
               })()
             )}
           </div>
@@ -1,6 +1,13 @@
-import { TessellationConfig } from '../lib/types';
-import { PackedResult, PackingProgress } from '../lib/packing';
+import { useState } from 'react';
+import { TessellationConfig, NotchStyle } from '../lib/types';
+import { PackedResult, PackingMode, GrainConstraint, PackingProgress, generateGridLabel } from '../lib/packing';
+import { DXFUnits, ExportFormat } from '../lib/dxf';
+import { PAPER_SIZES, PaperSize } from '../lib/print-templates';
+import { formatFabricLength, formatFabricArea } from '../lib/units';
+import { MachineProfile, OperationSettings, LaserOperation, LASER_OPERATIONS, duplicateMachineProfile } from '../lib/machine-profiles';
+import { Remnant, remnantArea, remnantSize } from '../lib/remnants';
 import { CollapsibleSection } from './CollapsibleSection';
+import { RemnantEditor } from './RemnantEditor';
 
 const getColorName = (index: number) => `Color ${index + 1}`;
 
@@ -11,16 +18,34 @@ interface PackingSidebarProps {
   setPackingSpacing: (value: number) => void;
   maxPackingIterations: number;
   setMaxPackingIterations: (value: number) => void;
+  packingTimeLimit: number;
+  setPackingTimeLimit: (value: number) => void;
   sheetWidth: number;
   setSheetWidth: (value: number) => void;
   sheetHeight: number;
   setSheetHeight: (value: number) => void;
+  packingMode: PackingMode;
+  setPackingMode: (value: PackingMode) => void;
+  boltWidth: number;
+  setBoltWidth: (value: number) => void;
+  grainConstraint: GrainConstraint;
+  setGrainConstraint: (value: GrainConstraint) => void;
   packedLayout: PackedResult | undefined;
+  packedLayouts: Map<number, PackedResult>;
   colorIndex: number;
   palette: string[];
+  directional: boolean;
   collapsedSections: Record<string, boolean>;
   toggleSection: (name: string) => void;
   onDownload: () => void;
+  onDownloadSheets: () => void;
+  exportFormat: ExportFormat;
+  setExportFormat: (value: ExportFormat) => void;
+  dxfUnits: DXFUnits;
+  setDxfUnits: (value: DXFUnits) => void;
+  paperSize: PaperSize;
+  setPaperSize: (value: PaperSize) => void;
+  onPrintTemplates: () => void;
   packingProgress?: PackingProgress;
   onPackColor: () => void;
   onStopPacking: () => void;
@@ -28,6 +53,47 @@ interface PackingSidebarProps {
   setShowPackedLabels: (value: boolean) => void;
   showPackedSewingLines: boolean;
   setShowPackedSewingLines: (value: boolean) => void;
+  showPackedGrainlines: boolean;
+  setShowPackedGrainlines: (value: boolean) => void;
+  packedNotchStyle: NotchStyle;
+  setPackedNotchStyle: (value: NotchStyle) => void;
+  machineProfiles: MachineProfile[];
+  setMachineProfiles: (value: MachineProfile[]) => void;
+  machineProfile: MachineProfile;
+  setMachineProfileId: (value: string) => void;
+  remnants: Remnant[];
+  setRemnants: (value: Remnant[]) => void;
+  excludedRemnantIds: Set<string>;
+  setExcludedRemnantIds: (value: Set<string>) => void;
+  onSaveOffcuts: () => void;
+  onImportRemnant: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  selectedPiece?: { label: string; sheet: number }; // packed piece picked in the preview
+  rotationStep: number; // degrees per turn of a packed piece; 360 when pieces may not turn
+  onRotatePiece: (direction: 1 | -1) => void;
+  onMovePieceToSheet: (sheet: number) => void;
+}
+
+/**
+ * Outline of a remnant with its holes, for the library list
+ */
+function RemnantThumbnail({ remnant }: { remnant: Remnant }) {
+  const { width, height } = remnantSize(remnant);
+  const d = [remnant.outline, ...remnant.holes]
+    .map(ring => ring.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ') + ' Z')
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} style={{ width: '48px', height: '48px', flexShrink: 0 }}>
+      <path
+        d={d}
+        fill={remnant.color ?? '#BDC3C7'}
+        fillRule="evenodd"
+        stroke="#2C3E50"
+        strokeWidth={1}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
 }
 
 export function PackingSidebar({
@@ -37,24 +103,109 @@ export function PackingSidebar({
   setPackingSpacing,
   maxPackingIterations,
   setMaxPackingIterations,
+  packingTimeLimit,
+  setPackingTimeLimit,
   sheetWidth,
   setSheetWidth,
   sheetHeight,
   setSheetHeight,
+  packingMode,
+  setPackingMode,
+  boltWidth,
+  setBoltWidth,
+  grainConstraint,
+  setGrainConstraint,
   packedLayout,
+  packedLayouts,
   colorIndex,
-  palette: _palette,
+  palette,
+  directional,
   collapsedSections,
   toggleSection,
   onDownload,
+  onDownloadSheets,
+  exportFormat,
+  setExportFormat,
+  dxfUnits,
+  setDxfUnits,
+  paperSize,
+  setPaperSize,
+  onPrintTemplates,
   packingProgress,
   onPackColor: _onPackColor,
   onStopPacking,
   showPackedLabels,
   setShowPackedLabels,
   showPackedSewingLines,
-  setShowPackedSewingLines
+  setShowPackedSewingLines,
+  showPackedGrainlines,
+  setShowPackedGrainlines,
+  packedNotchStyle,
+  setPackedNotchStyle,
+  machineProfiles,
+  setMachineProfiles,
+  machineProfile,
+  setMachineProfileId,
+  remnants,
+  setRemnants,
+  excludedRemnantIds,
+  setExcludedRemnantIds,
+  onSaveOffcuts,
+  onImportRemnant,
+  selectedPiece,
+  rotationStep,
+  onRotatePiece,
+  onMovePieceToSheet
 }: PackingSidebarProps) {
+  const [drawingRemnant, setDrawingRemnant] = useState(false);
+
+  // Remnants cut from this color's fabric, or from any fabric
+  const colorRemnants = remnants.filter(remnant => !remnant.color || remnant.color === palette[colorIndex]);
+  const freshSheets = packedLayout ? packedLayout.sheets.filter(sheet => !sheet.remnant).length : 0;
+
+  // Remnants come first and are not numbered with the fresh sheets
+  const sheetLabel = (layout: PackedResult, index: number) => {
+    const sheet = layout.sheets[index];
+    if (sheet.remnant) return `Remnant "${sheet.remnant.name}"`;
+    return layout.mode === 'roll' ? 'Layout' : `Sheet ${index + 1 - (layout.sheets.length - freshSheets)}`;
+  };
+
+  const toggleRemnant = (id: string) => {
+    const next = new Set(excludedRemnantIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setExcludedRemnantIds(next);
+  };
+
+  const updateMachineProfile = (partial: Partial<MachineProfile>) => {
+    setMachineProfiles(machineProfiles.map(profile =>
+      profile.id === machineProfile.id ? { ...profile, ...partial } : profile
+    ));
+  };
+
+  const updateOperation = (operation: LaserOperation, partial: Partial<OperationSettings>) => {
+    updateMachineProfile({
+      operations: {
+        ...machineProfile.operations,
+        [operation]: { ...machineProfile.operations[operation], ...partial }
+      }
+    });
+  };
+
+  const handleDuplicateProfile = () => {
+    const copy = duplicateMachineProfile(machineProfile);
+    setMachineProfiles([...machineProfiles, copy]);
+    setMachineProfileId(copy.id);
+  };
+
+  const handleDeleteProfile = () => {
+    setMachineProfiles(machineProfiles.filter(profile => profile.id !== machineProfile.id));
+    setMachineProfileId(machineProfiles[0].id);
+  };
+
   return (
     <>
       <div className="controls-scrollable">
@@ -64,30 +215,60 @@ export function PackingSidebar({
           onToggle={() => toggleSection('sheet-dimensions')}
         >
           <label>
-            Sheet Width (mm)
-            <input
-              type="number"
-              min="100"
-              max="2000"
-              step="10"
-              value={sheetWidth}
-              onChange={(e) => setSheetWidth(parseFloat(e.target.value))}
+            Packing Mode
+            <select
+              value={packingMode}
+              onChange={(e) => setPackingMode(e.target.value as PackingMode)}
               style={{ marginTop: '0.5rem' }}
-            />
+            >
+              <option value="sheets">Fixed sheets</option>
+              <option value="roll">Roll / bolt (minimise length)</option>
+            </select>
           </label>
 
-          <label>
-            Sheet Height (mm)
-            <input
-              type="number"
-              min="100"
-              max="2000"
-              step="10"
-              value={sheetHeight}
-              onChange={(e) => setSheetHeight(parseFloat(e.target.value))}
-              style={{ marginTop: '0.5rem' }}
-            />
-          </label>
+          {packingMode === 'roll' ? (
+            <label>
+              Bolt Width (mm)
+              <input
+                type="number"
+                min="100"
+                max="3000"
+                step="10"
+                value={boltWidth}
+                onChange={(e) => setBoltWidth(parseFloat(e.target.value))}
+                style={{ marginTop: '0.5rem' }}
+              />
+              <small>Usable fabric width between the selvages</small>
+            </label>
+          ) : (
+            <>
+              <label>
+                Sheet Width (mm)
+                <input
+                  type="number"
+                  min="100"
+                  max="2000"
+                  step="10"
+                  value={sheetWidth}
+                  onChange={(e) => setSheetWidth(parseFloat(e.target.value))}
+                  style={{ marginTop: '0.5rem' }}
+                />
+              </label>
+
+              <label>
+                Sheet Height (mm)
+                <input
+                  type="number"
+                  min="100"
+                  max="2000"
+                  step="10"
+                  value={sheetHeight}
+                  onChange={(e) => setSheetHeight(parseFloat(e.target.value))}
+                  style={{ marginTop: '0.5rem' }}
+                />
+              </label>
+            </>
+          )}
         </CollapsibleSection>
 
         <CollapsibleSection
@@ -121,6 +302,24 @@ export function PackingSidebar({
             <small>Space between pieces when packing for laser cutting</small>
           </label>
 
+          <label>
+            Piece Rotation
+            <select
+              value={grainConstraint}
+              onChange={(e) => setGrainConstraint(e.target.value as GrainConstraint)}
+              style={{ marginTop: '0.5rem' }}
+            >
+              <option value="none">Any angle</option>
+              <option value="grain">Follow grain (0° / 180°)</option>
+              <option value="crossgrain">Grain or crossgrain (0° / 90° / 180° / 270°)</option>
+            </select>
+            <small>
+              {directional
+                ? `${getColorName(colorIndex)} is directional: every piece keeps the same orientation`
+                : 'Keep woven fabrics on grain. Sheet grain runs left to right'}
+            </small>
+          </label>
+
           <label>
             Max Packing Iterations: {maxPackingIterations}
             <input
@@ -133,6 +332,94 @@ export function PackingSidebar({
             />
             <small>More iterations = better packing but slower</small>
           </label>
+
+          <label>
+            Time Limit: {packingTimeLimit} s
+            <input
+              type="range"
+              min="5"
+              max="300"
+              step="5"
+              value={packingTimeLimit}
+              onChange={(e) => setPackingTimeLimit(parseInt(e.target.value))}
+            />
+            <small>Packing stops with the best layout so far when time runs out</small>
+          </label>
+        </CollapsibleSection>
+
+        <CollapsibleSection
+          title="Remnant Library"
+          isCollapsed={!!collapsedSections['remnant-library']}
+          onToggle={() => toggleSection('remnant-library')}
+        >
+          {colorRemnants.length === 0 && <p>No remnants for {getColorName(colorIndex)}</p>}
+          {colorRemnants.map(remnant => {
+            const { width, height } = remnantSize(remnant);
+            return (
+              <div key={remnant.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+                <input
+                  type="checkbox"
+                  checked={!excludedRemnantIds.has(remnant.id)}
+                  onChange={() => toggleRemnant(remnant.id)}
+                  aria-label={`Use ${remnant.name}`}
+                />
+                <RemnantThumbnail remnant={remnant} />
+                <span style={{ flex: 1 }}>
+                  <strong>{remnant.name}</strong>
+                  <br />
+                  <small>
+                    {width.toFixed(0)} × {height.toFixed(0)} mm, {formatFabricArea(remnantArea(remnant))}
+                    {remnant.holes.length > 0 && `, ${remnant.holes.length} hole${remnant.holes.length === 1 ? '' : 's'}`}
+                  </small>
+                </span>
+                <button
+                  onClick={() => setRemnants(remnants.filter(other => other.id !== remnant.id))}
+                  aria-label={`Delete ${remnant.name}`}
+                  style={{ width: 'auto', background: 'linear-gradient(135deg, #E74C3C 0%, #C0392B 100%)' }}
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+          <small>
+            Ticked remnants are filled before fresh fabric. Remnants without a fabric color are offered to every color.
+          </small>
+
+          {drawingRemnant ? (
+            <RemnantEditor
+              width={packingMode === 'roll' ? boltWidth : sheetWidth}
+              height={packingMode === 'roll' ? boltWidth : sheetHeight}
+              palette={palette}
+              onSave={(remnant) => {
+                setRemnants([...remnants, remnant]);
+                setDrawingRemnant(false);
+              }}
+              onCancel={() => setDrawingRemnant(false)}
+            />
+          ) : (
+            <>
+              <button onClick={() => setDrawingRemnant(true)} style={{ marginTop: '0.5rem' }}>
+                ✏️ Draw Scrap Outline
+              </button>
+              <label style={{ marginTop: '1rem' }}>
+                Import SVG Remnant
+                <input
+                  type="file"
+                  accept=".svg,image/svg+xml"
+                  onChange={onImportRemnant}
+                  style={{ marginTop: '0.5rem' }}
+                />
+                <small>The largest shape is the outline; shapes inside it are holes</small>
+              </label>
+            </>
+          )}
+
+          {packedLayout && (!packingProgress || !packingProgress.isRunning) && (
+            <button onClick={onSaveOffcuts} style={{ marginTop: '0.5rem' }}>
+              ♻️ Save Offcuts to Library
+            </button>
+          )}
         </CollapsibleSection>
 
         <CollapsibleSection
@@ -143,8 +430,11 @@ export function PackingSidebar({
           {packingProgress && packingProgress.isRunning && (
             <>
               <p><strong>Status:</strong> Running...</p>
+              {packingProgress.stage && <p><strong>Filling:</strong> {packingProgress.stage}</p>}
               <p><strong>Iteration:</strong> {packingProgress.iteration} / {maxPackingIterations}</p>
               <p><strong>Current Efficiency:</strong> {packingProgress.utilization.toFixed(1)}%</p>
+              <p><strong>Elapsed:</strong> {(packingProgress.elapsed / 1000).toFixed(0)} / {packingTimeLimit} s</p>
+              <small>The preview shows the best layout found so far</small>
               <button
                 onClick={onStopPacking}
                 style={{
@@ -159,9 +449,42 @@ export function PackingSidebar({
           {packedLayout && (!packingProgress || !packingProgress.isRunning) && (
             <>
               <p><strong>Color:</strong> {getColorName(colorIndex)}</p>
-              <p><strong>Pieces:</strong> {packedLayout.pieces.length}</p>
-              <p><strong>Sheet Size:</strong> {packedLayout.sheetWidth.toFixed(1)} × {packedLayout.sheetHeight.toFixed(1)} mm</p>
-              <p><strong>Efficiency:</strong> {packedLayout.efficiency.toFixed(1)}%</p>
+              <p><strong>Pieces Placed:</strong> {packedLayout.placedCount} of {packedLayout.placedCount + packedLayout.unplacedPieces.length}</p>
+              {packedLayout.mode === 'roll' ? (
+                <>
+                  <p><strong>Bolt Width:</strong> {packedLayout.sheetHeight.toFixed(1)} mm</p>
+                  <p><strong>Length Used:</strong> {formatFabricLength(packedLayout.consumedLength ?? 0)}</p>
+                </>
+              ) : (
+                <>
+                  <p><strong>Sheet Size:</strong> {packedLayout.sheetWidth.toFixed(1)} × {packedLayout.sheetHeight.toFixed(1)} mm</p>
+                  <p><strong>Sheets Used:</strong> {freshSheets}</p>
+                </>
+              )}
+              {packedLayout.sheets.length > freshSheets && (
+                <p><strong>Remnants Used:</strong> {packedLayout.sheets.length - freshSheets}</p>
+              )}
+              <p><strong>Fabric Used:</strong> {formatFabricArea(packedLayout.usedArea)}</p>
+              <p><strong>Waste:</strong> {formatFabricArea(packedLayout.wasteArea)}</p>
+              <p><strong>Efficiency:</strong> {packedLayout.efficiency.toFixed(1)}% of the fabric used</p>
+              {packedLayout.sheets.map((sheet, index) => (
+                <p key={index} style={{ marginLeft: '1rem' }}>
+                  {sheetLabel(packedLayout, index)}: {sheet.pieces.length} pieces,
+                  {' '}{sheet.usedLength.toFixed(0)} × {sheet.usedHeight.toFixed(0)} mm used, {sheet.efficiency.toFixed(1)}%
+                </p>
+              ))}
+              {packedLayout.unplacedPieces.length > 0 && (
+                <p style={{ color: '#E74C3C' }}>
+                  <strong>Unplaced:</strong> {packedLayout.unplacedPieces.length} pieces too large for the sheet
+                  {' '}({packedLayout.unplacedPieces.slice(0, 5).map(generateGridLabel).join(', ')}
+                  {packedLayout.unplacedPieces.length > 5 ? ', …' : ''}) - not included in the numbers above
+                </p>
+              )}
+              {packedLayout.adjusted && <p><strong>Layout:</strong> adjusted by hand</p>}
+              <small>
+                Used fabric runs to the far edge of the furthest piece on each sheet; waste is that
+                area minus the pieces.
+              </small>
             </>
           )}
           {!packedLayout && (!packingProgress || !packingProgress.isRunning) && (
@@ -169,6 +492,72 @@ export function PackingSidebar({
           )}
         </CollapsibleSection>
 
+        {packedLayout && (!packingProgress || !packingProgress.isRunning) && (
+          <CollapsibleSection
+            title="Adjust Layout"
+            isCollapsed={!!collapsedSections['adjust-layout']}
+            onToggle={() => toggleSection('adjust-layout')}
+          >
+            {selectedPiece ? (
+              <>
+                <p><strong>Piece:</strong> {selectedPiece.label} on {sheetLabel(packedLayout, selectedPiece.sheet)}</p>
+                {rotationStep < 360 && (
+                  <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <button onClick={() => onRotatePiece(-1)}>
+                      ⟲ {rotationStep}°
+                    </button>
+                    <button onClick={() => onRotatePiece(1)}>
+                      ⟳ {rotationStep}°
+                    </button>
+                  </div>
+                )}
+                {packedLayout.sheets.length > 1 && (
+                  <label style={{ marginTop: '1rem' }}>
+                    Move to
+                    <select
+                      value={selectedPiece.sheet}
+                      onChange={(e) => onMovePieceToSheet(parseInt(e.target.value))}
+                      style={{ marginTop: '0.5rem' }}
+                    >
+                      {packedLayout.sheets.map((_, index) => (
+                        <option key={index} value={index}>{sheetLabel(packedLayout, index)}</option>
+                      ))}
+                    </select>
+                    <small>The piece goes in the left-most free spot, keeping the packing spacing</small>
+                  </label>
+                )}
+              </>
+            ) : (
+              <p>Click a piece in the preview to select it</p>
+            )}
+            <small>
+              Drag pieces to move them, also onto another sheet.
+              {rotationStep < 360 ? ' R and Shift+R turn the selected piece.' : ' Pieces keep their orientation on this fabric.'}
+              {' '}Moves that overlap another piece or leave the fabric are undone.
+            </small>
+          </CollapsibleSection>
+        )}
+
+        {packingMode === 'roll' && (
+          <CollapsibleSection
+            title="Fabric Needed"
+            isCollapsed={!!collapsedSections['fabric-needed']}
+            onToggle={() => toggleSection('fabric-needed')}
+          >
+            {Array.from(packedLayouts.entries())
+              .filter(([, layout]) => layout.mode === 'roll')
+              .sort(([a], [b]) => a - b)
+              .map(([index, layout]) => (
+                <p key={index}>
+                  <strong>{getColorName(index)}:</strong> {formatFabricLength(layout.consumedLength ?? 0)}
+                </p>
+              ))}
+            <small style={{ display: 'block', color: 'var(--text-secondary)' }}>
+              Pack each color on a {boltWidth.toFixed(0)} mm bolt to see how much to buy
+            </small>
+          </CollapsibleSection>
+        )}
+
         <CollapsibleSection
           title="Display Options"
           isCollapsed={!!collapsedSections['display-options']}
@@ -183,7 +572,7 @@ export function PackingSidebar({
             <span>Show Grid Labels</span>
           </label>
           <small style={{ display: 'block', marginTop: '0.25rem', marginBottom: '1rem', color: 'var(--text-secondary)' }}>
-            Display (row, col) coordinates on each piece
+            Engrave (row, col) coordinates inside each piece's seam allowance (single-stroke paths on their own layer)
           </small>
 
           <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
@@ -197,6 +586,182 @@ export function PackingSidebar({
           <small style={{ display: 'block', marginTop: '0.25rem', color: 'var(--text-secondary)' }}>
             Display dotted lines for actual piece size (minus seam allowance)
           </small>
+
+          <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer', marginTop: '1rem' }}>
+            <input
+              type="checkbox"
+              checked={showPackedGrainlines}
+              onChange={(e) => setShowPackedGrainlines(e.target.checked)}
+            />
+            <span>Show Grainlines</span>
+          </label>
+          <small style={{ display: 'block', marginTop: '0.25rem', color: 'var(--text-secondary)' }}>
+            Display arrows along the fabric grain of each piece
+          </small>
+
+          <label style={{ marginTop: '1rem' }}>
+            Registration Notches
+            <select
+              value={packedNotchStyle}
+              onChange={(e) => setPackedNotchStyle(e.target.value as NotchStyle)}
+              style={{ marginTop: '0.5rem' }}
+            >
+              <option value="none">None</option>
+              <option value="v">V Cuts</option>
+              <option value="mark">Slit Marks</option>
+            </select>
+            <small>
+              Notches in the seam allowance of shared edges. Edges that are sewn together carry the same number of notches.
+            </small>
+          </label>
+        </CollapsibleSection>
+
+        <CollapsibleSection
+          title="Laser Profile"
+          isCollapsed={!!collapsedSections['laser-profile']}
+          onToggle={() => toggleSection('laser-profile')}
+        >
+          <label>
+            Machine
+            <select
+              value={machineProfile.id}
+              onChange={(e) => setMachineProfileId(e.target.value)}
+              style={{ marginTop: '0.5rem' }}
+            >
+              {machineProfiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+            <small>
+              Stroke colors and widths the laser software maps to cut, score and engrave layers.
+              Power and speed are saved in the SVG metadata.
+            </small>
+          </label>
+
+          {!machineProfile.builtIn && (
+            <label>
+              Profile Name
+              <input
+                type="text"
+                value={machineProfile.name}
+                onChange={(e) => updateMachineProfile({ name: e.target.value })}
+                style={{ marginTop: '0.5rem' }}
+              />
+            </label>
+          )}
+
+          <label>
+            Kerf: {machineProfile.kerf.toFixed(2)} mm
+            <input
+              type="range"
+              min="0"
+              max="0.5"
+              step="0.01"
+              value={machineProfile.kerf}
+              onChange={(e) => updateMachineProfile({ kerf: parseFloat(e.target.value) })}
+            />
+            <small>Cut lines are moved out by half the kerf so pieces keep their size</small>
+          </label>
+
+          {LASER_OPERATIONS.map(({ operation, label }) => {
+            const settings = machineProfile.operations[operation];
+            return (
+              <div key={operation} style={{ marginBottom: '1rem' }}>
+                <span style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+                  <input
+                    type="color"
+                    value={settings.color}
+                    onChange={(e) => updateOperation(operation, { color: e.target.value })}
+                    aria-label={`${label} color`}
+                    style={{
+                      width: '24px',
+                      height: '24px',
+                      border: '1px solid #ccc',
+                      borderRadius: '3px',
+                      cursor: 'pointer'
+                    }}
+                  />
+                  <strong>{label}</strong>
+                </span>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                  <label>
+                    Width (mm)
+                    <input
+                      type="number"
+                      min="0.01"
+                      max="2"
+                      step="0.01"
+                      value={settings.strokeWidth}
+                      onChange={(e) => updateOperation(operation, { strokeWidth: parseFloat(e.target.value) || settings.strokeWidth })}
+                    />
+                  </label>
+                  <label>
+                    Power (%)
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="1"
+                      value={settings.power}
+                      onChange={(e) => updateOperation(operation, { power: parseFloat(e.target.value) || 0 })}
+                    />
+                  </label>
+                  <label>
+                    Speed (mm/s)
+                    <input
+                      type="number"
+                      min="1"
+                      max="1000"
+                      step="1"
+                      value={settings.speed}
+                      onChange={(e) => updateOperation(operation, { speed: parseFloat(e.target.value) || settings.speed })}
+                    />
+                  </label>
+                </div>
+              </div>
+            );
+          })}
+
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button onClick={handleDuplicateProfile}>
+              Duplicate
+            </button>
+            {!machineProfile.builtIn && (
+              <button
+                onClick={handleDeleteProfile}
+                style={{ background: 'linear-gradient(135deg, #E74C3C 0%, #C0392B 100%)' }}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </CollapsibleSection>
+
+        <CollapsibleSection
+          title="Print Templates"
+          isCollapsed={!!collapsedSections['print-templates']}
+          onToggle={() => toggleSection('print-templates')}
+        >
+          <label>
+            Paper Size
+            <select
+              value={paperSize}
+              onChange={(e) => setPaperSize(e.target.value as PaperSize)}
+              style={{ marginTop: '0.5rem' }}
+            >
+              {(Object.keys(PAPER_SIZES) as PaperSize[]).map(size => (
+                <option key={size} value={size}>{PAPER_SIZES[size].label}</option>
+              ))}
+            </select>
+            <small>
+              Tiles {packedLayout ? 'the packed layout' : `${getColorName(colorIndex)} pieces`} across pages at 1:1 scale,
+              with overlap, alignment marks and a calibration square
+            </small>
+          </label>
+
+          <button onClick={onPrintTemplates} className="export-btn">
+            🖨 Download Paper Templates (PDF)
+          </button>
         </CollapsibleSection>
       </div>
 
@@ -216,9 +781,38 @@ export function PackingSidebar({
           </button>
         )}
 
+        {packedLayout && (
+          <div className="export-format" style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.75rem' }}>
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              aria-label="Export format"
+            >
+              <option value="svg">SVG</option>
+              <option value="dxf">DXF (cutting table)</option>
+            </select>
+            {exportFormat === 'dxf' && (
+              <select
+                value={dxfUnits}
+                onChange={(e) => setDxfUnits(e.target.value as DXFUnits)}
+                aria-label="DXF units"
+              >
+                <option value="mm">mm</option>
+                <option value="in">inches</option>
+              </select>
+            )}
+          </div>
+        )}
+
         {packedLayout && (
           <button onClick={onDownload} className="export-btn">
-            📥 Download {getColorName(colorIndex)} Packing
+            📥 Download {getColorName(colorIndex)} Packing ({exportFormat.toUpperCase()})
+          </button>
+        )}
+
+        {packedLayout && packedLayout.sheets.length > 1 && (
+          <button onClick={onDownloadSheets} className="export-btn" style={{ marginTop: '0.75rem' }}>
+            📥 Download {packedLayout.sheets.length} Sheets Separately
           </button>
         )}
       </div>
@@ -1,5 +1,14 @@
-import { Shuffle, Download } from 'lucide-react';
-import { TessellationConfig, TessellationResult } from '../lib/types';
+import { Shuffle, Download, ListOrdered, FileSpreadsheet, Unlock } from 'lucide-react';
+import { TessellationConfig, TessellationResult, TessellationPiece, TilingType, SeamJoin, ColorMode } from '../lib/types';
+import { TILINGS } from '../lib/lattice';
+import { DEFAULT_MITER_LIMIT } from '../lib/geometry';
+import { MIN_SEWABLE_WIDTH } from '../lib/tessellation';
+import { ColorReport, DEFAULT_COLOR_TOLERANCE } from '../lib/coloring';
+import { generateGridLabel } from '../lib/packing';
+import { GARMENT_BLOCKS, GarmentBlockName } from '../lib/garment';
+import { YardageEstimate, PriceUnit } from '../lib/yardage';
+import { formatFabricLength } from '../lib/units';
+import { History, historyEntries } from '../lib/history';
 import { CollapsibleSection } from './CollapsibleSection';
 
 const getColorName = (index: number) => `Color ${index + 1}`;
@@ -13,12 +22,32 @@ interface QuiltSidebarProps {
   setPackingSpacing: (value: number) => void;
   palette: string[];
   updatePaletteColor: (index: number, color: string) => void;
+  directionalColors: boolean[];
+  updateDirectionalColor: (index: number, directional: boolean) => void;
   updateColorProbability: (index: number, value: number) => void;
   tessellation: TessellationResult;
   collapsedSections: Record<string, boolean>;
   toggleSection: (name: string) => void;
   onRegenerate: () => void;
   onDownload: () => void;
+  onDownloadAssemblyGuide: () => void;
+  boltWidth: number;
+  setBoltWidth: (value: number) => void;
+  fabricPrices: number[];
+  updateFabricPrice: (index: number, price: number) => void;
+  priceUnit: PriceUnit;
+  setPriceUnit: (value: PriceUnit) => void;
+  yardage: YardageEstimate;
+  onExportShoppingList: () => void;
+  garmentBlock: GarmentBlockName | 'custom' | 'none';
+  onGarmentBlockChange: (block: GarmentBlockName | 'none') => void;
+  onUploadOutline: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  slivers: TessellationPiece[];
+  colorDistribution: ColorReport;
+  history: History<unknown>;
+  onJumpToHistory: (index: number) => void;
+  lockedCount: number;
+  onUnlockAll: () => void;
 }
 
 export function QuiltSidebar({
@@ -30,13 +59,36 @@ export function QuiltSidebar({
   setPackingSpacing,
   palette,
   updatePaletteColor,
+  directionalColors,
+  updateDirectionalColor,
   updateColorProbability,
   tessellation,
   collapsedSections,
   toggleSection,
   onRegenerate,
-  onDownload
+  onDownload,
+  onDownloadAssemblyGuide,
+  boltWidth,
+  setBoltWidth,
+  fabricPrices,
+  updateFabricPrice,
+  priceUnit,
+  setPriceUnit,
+  yardage,
+  onExportShoppingList,
+  garmentBlock,
+  onGarmentBlockChange,
+  onUploadOutline,
+  slivers,
+  colorDistribution,
+  history,
+  onJumpToHistory,
+  lockedCount,
+  onUnlockAll
 }: QuiltSidebarProps) {
+  const unitLabel = priceUnit === 'metre' ? 'm' : 'yd';
+  const tiling = TILINGS[config.tiling];
+
   return (
     <>
       <div className="controls-scrollable">
@@ -46,26 +98,47 @@ export function QuiltSidebar({
           onToggle={() => toggleSection('grid')}
         >
           <label>
-            Rows: {config.rows}
-            <input
-              type="range"
-              min="2"
-              max="20"
-              value={config.rows}
-              onChange={(e) => updateConfig({ rows: parseInt(e.target.value) })}
-            />
+            Tiling
+            <select
+              value={config.tiling}
+              onChange={(e) => updateConfig({ tiling: e.target.value as TilingType })}
+              style={{ marginTop: '0.5rem' }}
+            >
+              {(Object.keys(TILINGS) as TilingType[]).map(type => (
+                <option key={type} value={type}>{TILINGS[type].label}</option>
+              ))}
+            </select>
           </label>
 
-          <label>
-            Columns: {config.cols}
-            <input
-              type="range"
-              min="2"
-              max="20"
-              value={config.cols}
-              onChange={(e) => updateConfig({ cols: parseInt(e.target.value) })}
-            />
-          </label>
+          {config.garmentOutline ? (
+            <small style={{ display: 'block', marginBottom: '1rem' }}>
+              Rows and columns are sized to cover the garment block
+            </small>
+          ) : (
+            <>
+              <label>
+                Rows: {config.rows}
+                <input
+                  type="range"
+                  min="2"
+                  max="20"
+                  value={config.rows}
+                  onChange={(e) => updateConfig({ rows: parseInt(e.target.value) })}
+                />
+              </label>
+
+              <label>
+                Columns: {config.cols}
+                <input
+                  type="range"
+                  min="2"
+                  max="20"
+                  value={config.cols}
+                  onChange={(e) => updateConfig({ cols: parseInt(e.target.value) })}
+                />
+              </label>
+            </>
+          )}
 
           <label>
             Square Size: {config.squareSize} mm
@@ -78,39 +151,102 @@ export function QuiltSidebar({
             />
           </label>
 
+          {tiling.usesOffset && (
+            <label>
+              Brick Offset: {(config.offsetAmount * 100).toFixed(0)}%
+              <input
+                type="range"
+                min="0"
+                max="100"
+                value={config.offsetAmount * 100}
+                onChange={(e) => updateConfig({ offsetAmount: parseInt(e.target.value) / 100 })}
+              />
+            </label>
+          )}
+
+          {tiling.variation && (
+            <>
+              <label>
+                Width Variation: {(config.widthVariation * 100).toFixed(0)}%
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={config.widthVariation * 100}
+                  onChange={(e) => updateConfig({ widthVariation: parseInt(e.target.value) / 100 })}
+                />
+                <small>
+                  {tiling.variation === 'corners'
+                    ? 'How far cell corners shift horizontally'
+                    : 'How much rectangle widths vary within each row'}
+                </small>
+              </label>
+
+              <label>
+                Height Variation: {(config.heightVariation * 100).toFixed(0)}%
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={config.heightVariation * 100}
+                  onChange={(e) => updateConfig({ heightVariation: parseInt(e.target.value) / 100 })}
+                />
+                <small>
+                  {tiling.variation === 'corners'
+                    ? 'How far cell corners shift vertically'
+                    : 'How much row heights vary'}
+                </small>
+              </label>
+            </>
+          )}
+
           <label>
-            Brick Offset: {(config.offsetAmount * 100).toFixed(0)}%
+            Seed
             <input
-              type="range"
+              type="number"
               min="0"
-              max="100"
-              value={config.offsetAmount * 100}
-              onChange={(e) => updateConfig({ offsetAmount: parseInt(e.target.value) / 100 })}
+              step="1"
+              value={config.seed}
+              onChange={(e) => {
+                const seed = parseInt(e.target.value);
+                if (!isNaN(seed)) updateConfig({ seed });
+              }}
+              style={{ marginTop: '0.5rem' }}
             />
+            <small>Same settings + seed always produce the same layout</small>
           </label>
+        </CollapsibleSection>
 
+        <CollapsibleSection
+          title="Garment Block"
+          isCollapsed={!!collapsedSections['garment']}
+          onToggle={() => toggleSection('garment')}
+        >
           <label>
-            Width Variation: {(config.widthVariation * 100).toFixed(0)}%
-            <input
-              type="range"
-              min="0"
-              max="100"
-              value={config.widthVariation * 100}
-              onChange={(e) => updateConfig({ widthVariation: parseInt(e.target.value) / 100 })}
-            />
-            <small>How much rectangle widths vary within each row</small>
+            Block Outline
+            <select
+              value={garmentBlock}
+              onChange={(e) => onGarmentBlockChange(e.target.value as GarmentBlockName | 'none')}
+              style={{ marginTop: '0.5rem' }}
+            >
+              <option value="none">None (rectangle)</option>
+              {(Object.keys(GARMENT_BLOCKS) as GarmentBlockName[]).map(block => (
+                <option key={block} value={block}>{GARMENT_BLOCKS[block].label}</option>
+              ))}
+              {garmentBlock === 'custom' && <option value="custom" disabled>Uploaded outline</option>}
+            </select>
+            <small>The tessellation is cut along the outline</small>
           </label>
 
           <label>
-            Height Variation: {(config.heightVariation * 100).toFixed(0)}%
+            Upload SVG Outline
             <input
-              type="range"
-              min="0"
-              max="100"
-              value={config.heightVariation * 100}
-              onChange={(e) => updateConfig({ heightVariation: parseInt(e.target.value) / 100 })}
+              type="file"
+              accept=".svg,image/svg+xml"
+              onChange={onUploadOutline}
+              style={{ marginTop: '0.5rem' }}
             />
-            <small>How much row heights vary</small>
+            <small>First path or polygon in the file; units from the SVG size, otherwise mm</small>
           </label>
         </CollapsibleSection>
 
@@ -158,6 +294,14 @@ export function QuiltSidebar({
                   onChange={(e) => updateColorProbability(i, parseFloat(e.target.value))}
                 />
               </label>
+              <label className="checkbox-label" title="Nap or one-way print: pieces are never rotated when packed">
+                <input
+                  type="checkbox"
+                  checked={directionalColors[i] ?? false}
+                  onChange={(e) => updateDirectionalColor(i, e.target.checked)}
+                />
+                Directional fabric (nap / one-way print)
+              </label>
             </div>
           ))}
           <small style={{ display: 'block', marginTop: '0.5rem', fontStyle: 'italic' }}>
@@ -200,6 +344,37 @@ export function QuiltSidebar({
             />
             <small>Chance that same colors can touch (0% = never, 100% = always)</small>
           </label>
+
+          <label>
+            Color Assignment
+            <select
+              value={config.colorMode ?? 'random'}
+              onChange={(e) => updateConfig({ colorMode: e.target.value as ColorMode })}
+              style={{ marginTop: '0.5rem' }}
+            >
+              <option value="random">Random (weighted by probability)</option>
+              <option value="balanced">Balanced (graph coloring)</option>
+            </select>
+            <small>
+              Balanced holds each color's share of the quilt area to its probability and keeps
+              same colors apart wherever the adjacency setting requires it
+            </small>
+          </label>
+
+          {config.colorMode === 'balanced' && (
+            <label>
+              Color Tolerance: ±{(config.colorTolerance ?? DEFAULT_COLOR_TOLERANCE).toFixed(1)}%
+              <input
+                type="range"
+                min="0.5"
+                max="10"
+                step="0.5"
+                value={config.colorTolerance ?? DEFAULT_COLOR_TOLERANCE}
+                onChange={(e) => updateConfig({ colorTolerance: parseFloat(e.target.value) })}
+              />
+              <small>How far each color's share of the area may miss its probability</small>
+            </label>
+          )}
         </CollapsibleSection>
 
         <CollapsibleSection
@@ -220,6 +395,59 @@ export function QuiltSidebar({
             <small>6.35mm = ¼", 9.5mm = ⅜"</small>
           </label>
 
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={config.boundaryAllowance !== undefined}
+              onChange={(e) => updateConfig({ boundaryAllowance: e.target.checked ? config.seamAllowance : undefined })}
+            />
+            Separate Allowance for Outer Edges
+          </label>
+
+          {config.boundaryAllowance !== undefined && (
+            <label>
+              Outer Edge Allowance: {config.boundaryAllowance.toFixed(2)} mm
+              <input
+                type="range"
+                min="0"
+                max="50"
+                step="0.5"
+                value={config.boundaryAllowance}
+                onChange={(e) => updateConfig({ boundaryAllowance: parseFloat(e.target.value) })}
+              />
+              <small>Hem or binding allowance on edges along the outside of the quilt</small>
+            </label>
+          )}
+
+          <label>
+            Corner Style
+            <select
+              value={config.seamJoin ?? 'miter'}
+              onChange={(e) => updateConfig({ seamJoin: e.target.value as SeamJoin })}
+              style={{ marginTop: '0.5rem' }}
+            >
+              <option value="miter">Miter</option>
+              <option value="square">Square</option>
+              <option value="round">Round</option>
+            </select>
+            <small>How the seam allowance is drawn around corners</small>
+          </label>
+
+          {(config.seamJoin ?? 'miter') === 'miter' && (
+            <label>
+              Miter Limit: {(config.seamMiterLimit ?? DEFAULT_MITER_LIMIT).toFixed(1)}×
+              <input
+                type="range"
+                min="1"
+                max="10"
+                step="0.5"
+                value={config.seamMiterLimit ?? DEFAULT_MITER_LIMIT}
+                onChange={(e) => updateConfig({ seamMiterLimit: parseFloat(e.target.value) })}
+              />
+              <small>Sharp points longer than this many seam allowances are squared off</small>
+            </label>
+          )}
+
           <label className="checkbox-label">
             <input
               type="checkbox"
@@ -252,19 +480,168 @@ export function QuiltSidebar({
           <p><strong>Dimensions:</strong> {tessellation.bounds.width.toFixed(1)} × {tessellation.bounds.height.toFixed(1)} mm</p>
           <p><strong>Triangles:</strong> {tessellation.pieces.filter(p => p.isTriangle).length}</p>
           <p><strong>Squares:</strong> {tessellation.pieces.filter(p => !p.isTriangle).length}</p>
+          {slivers.length > 0 && (
+            <p style={{ color: '#E74C3C' }}>
+              <strong>Too narrow to sew:</strong> {slivers.length} pieces under {MIN_SEWABLE_WIDTH} mm
+              ({slivers.slice(0, 5).map(generateGridLabel).join(', ')}{slivers.length > 5 ? ', …' : ''})
+            </p>
+          )}
+
+          <h3>Color Distribution:</h3>
+          {colorDistribution.colors.map(color => (
+            <p key={color.colorIndex} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              <span style={{ width: '12px', height: '12px', borderRadius: '2px', background: palette[color.colorIndex] }} />
+              <span>
+                <strong>{getColorName(color.colorIndex)}:</strong> {color.share.toFixed(1)}% of area
+                (target {color.target.toFixed(1)}%), {color.pieces} pieces
+              </span>
+            </p>
+          ))}
+          <p><strong>Same-color neighbours:</strong> {colorDistribution.sameColorNeighbours}</p>
+          {config.colorMode === 'balanced' && colorDistribution.maxDeviation > (config.colorTolerance ?? DEFAULT_COLOR_TOLERANCE) && (
+            <small style={{ color: '#E74C3C' }}>
+              Off target by up to {colorDistribution.maxDeviation.toFixed(1)}%: this layout can't fit the requested
+              shares without more same-color neighbours. Raise Same Color Adjacency or even out the probabilities.
+            </small>
+          )}
+        </CollapsibleSection>
+
+        <CollapsibleSection
+          title="Locked Pieces"
+          isCollapsed={!!collapsedSections['locks']}
+          onToggle={() => toggleSection('locks')}
+        >
+          <p><strong>Locked:</strong> {lockedCount} of {tessellation.pieces.length} pieces</p>
+          <small>
+            Click a piece to lock it or its row, or shift-drag over the pattern to lock a region.
+            Regenerating keeps locked pieces and their colors and rerolls the rest around them.
+          </small>
+          {lockedCount > 0 && (
+            <button onClick={onUnlockAll} style={{ marginTop: '1rem' }}>
+              <Unlock size={16} />
+              Unlock All
+            </button>
+          )}
+        </CollapsibleSection>
+
+        <CollapsibleSection
+          title="Fabric & Cost"
+          isCollapsed={!!collapsedSections['fabric']}
+          onToggle={() => toggleSection('fabric')}
+        >
+          <label>
+            Bolt Width (mm)
+            <input
+              type="number"
+              min="100"
+              max="3000"
+              step="10"
+              value={boltWidth}
+              onChange={(e) => setBoltWidth(parseFloat(e.target.value))}
+              style={{ marginTop: '0.5rem' }}
+            />
+            <small>Usable fabric width between the selvages</small>
+          </label>
+
+          <label>
+            Price Per
+            <select
+              value={priceUnit}
+              onChange={(e) => setPriceUnit(e.target.value as PriceUnit)}
+              style={{ marginTop: '0.5rem' }}
+            >
+              <option value="metre">Metre</option>
+              <option value="yard">Yard</option>
+            </select>
+          </label>
+
+          {yardage.colors.map(color => (
+            <div key={color.colorIndex} style={{ marginBottom: '1rem' }}>
+              <label>
+                <span style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                  <span
+                    style={{
+                      width: '16px',
+                      height: '16px',
+                      backgroundColor: palette[color.colorIndex],
+                      border: '1px solid #ccc',
+                      borderRadius: '3px'
+                    }}
+                  />
+                  {getColorName(color.colorIndex)} price per {unitLabel}
+                </span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={fabricPrices[color.colorIndex] ?? 0}
+                  onChange={(e) => {
+                    const price = parseFloat(e.target.value);
+                    updateFabricPrice(color.colorIndex, isNaN(price) ? 0 : price);
+                  }}
+                  style={{ marginTop: '0.5rem' }}
+                />
+              </label>
+              <small>
+                {formatFabricLength(color.length)} {color.source === 'packed' ? '(packed)' : '(estimated)'}
+                {' · '}buy {color.purchaseLength.toFixed(2)} {unitLabel}
+                {' · '}{color.cost.toFixed(2)}
+              </small>
+            </div>
+          ))}
+
+          <p><strong>Total Fabric:</strong> {formatFabricLength(yardage.totalLength)}</p>
+          <p><strong>Total to Buy:</strong> {yardage.totalPurchaseLength.toFixed(2)} {unitLabel}</p>
+          <p><strong>Total Cost:</strong> {yardage.totalCost.toFixed(2)}</p>
+          <small style={{ display: 'block', fontStyle: 'italic' }}>
+            Estimates include seam allowance and 25% waste. Pack a color to use its exact layout length.
+          </small>
+        </CollapsibleSection>
+
+        <CollapsibleSection
+          title="History"
+          isCollapsed={!!collapsedSections['history']}
+          onToggle={() => toggleSection('history')}
+        >
+          <ol className="history-list">
+            {historyEntries(history).map((entry, index) => {
+              const presentIndex = history.past.length;
+              return (
+                <li
+                  key={`${index}-${entry.timestamp}`}
+                  className={index === presentIndex ? 'current' : index > presentIndex ? 'undone' : ''}
+                  onClick={() => onJumpToHistory(index)}
+                  title={new Date(entry.timestamp).toLocaleTimeString()}
+                >
+                  {entry.label}
+                </li>
+              );
+            })}
+          </ol>
+          <small>Click a step to go back to it. Ctrl+Z undoes, Ctrl+Shift+Z redoes.</small>
         </CollapsibleSection>
       </div>
 
       <div className="controls-footer">
         <button onClick={onRegenerate} className="regenerate-btn">
           <Shuffle size={18} />
-          Regenerate Pattern
+          {lockedCount > 0 ? 'Regenerate Unlocked Pieces' : 'Regenerate Pattern'}
         </button>
 
         <button onClick={onDownload} className="export-btn">
           <Download size={18} />
           Download Full Pattern
         </button>
+
+        <button onClick={onDownloadAssemblyGuide} className="export-btn">
+          <ListOrdered size={18} />
+          Download Assembly Guide
+        </button>
+
+        <button onClick={onExportShoppingList} className="export-btn">
+          <FileSpreadsheet size={18} />
+          Export Shopping List (CSV)
+        </button>
       </div>
     </>
   );
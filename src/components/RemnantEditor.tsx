@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Polygon } from '../lib/types';
+import { Remnant, createRemnant } from '../lib/remnants';
+
+const getColorName = (index: number) => `Color ${index + 1}`;
+
+interface RemnantEditorProps {
+  width: number; // drawing area in mm
+  height: number;
+  palette: string[];
+  onSave: (remnant: Remnant) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Draw a scrap outline point by point, then any holes already cut out of it.
+ * Points snap to whole millimetres.
+ */
+export function RemnantEditor({ width, height, palette, onSave, onCancel }: RemnantEditorProps) {
+  const [name, setName] = useState('Scrap');
+  const [color, setColor] = useState('');
+  // The first ring is the outline, the rest are holes
+  const [rings, setRings] = useState<Polygon[]>([[]]);
+
+  const current = rings[rings.length - 1];
+  const toPath = (ring: Polygon) => ring.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ') + ' Z';
+
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const point = {
+      x: Math.round(((event.clientX - rect.left) / rect.width) * width),
+      y: Math.round(((event.clientY - rect.top) / rect.height) * height)
+    };
+    setRings([...rings.slice(0, -1), [...current, point]]);
+  };
+
+  const handleUndo = () => {
+    if (current.length > 0) {
+      setRings([...rings.slice(0, -1), current.slice(0, -1)]);
+    } else if (rings.length > 1) {
+      setRings(rings.slice(0, -1));
+    }
+  };
+
+  const handleSave = () => {
+    const [outline, ...holes] = rings;
+    onSave(createRemnant(name.trim() || 'Scrap', outline, holes.filter(hole => hole.length >= 3), color || undefined));
+  };
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        onClick={handleClick}
+        style={{ width: '100%', background: 'var(--light)', border: '1px solid var(--border)', cursor: 'crosshair' }}
+      >
+        {rings.map((ring, index) => ring.length > 0 && (
+          <path
+            key={index}
+            d={ring === current ? toPath(ring).slice(0, -2) : toPath(ring)}
+            fill={ring === current ? 'none' : index === 0 ? (color || '#BDC3C7') : 'white'}
+            stroke="#2C3E50"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {current.map((point, index) => (
+          <circle key={index} cx={point.x} cy={point.y} r={Math.max(width, height) / 150} fill="#E74C3C" />
+        ))}
+      </svg>
+      <small>
+        {rings.length === 1
+          ? 'Click around the edge of the scrap to draw its outline'
+          : `Click to draw hole ${rings.length - 1}`}
+      </small>
+
+      <label>
+        Name
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} style={{ marginTop: '0.5rem' }} />
+      </label>
+
+      <label>
+        Fabric
+        <select value={color} onChange={(e) => setColor(e.target.value)} style={{ marginTop: '0.5rem' }}>
+          <option value="">Any color</option>
+          {palette.map((swatch, index) => (
+            <option key={index} value={swatch}>{getColorName(index)}</option>
+          ))}
+        </select>
+      </label>
+
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+        <button onClick={() => setRings([...rings, []])} disabled={current.length < 3}>
+          Start Hole
+        </button>
+        <button onClick={handleUndo} disabled={rings.length === 1 && current.length === 0}>
+          Undo Point
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={rings[0].length < 3}
+          style={{ background: 'linear-gradient(135deg, #3498DB 0%, #2980B9 100%)' }}
+        >
+          Save
+        </button>
+        <button onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
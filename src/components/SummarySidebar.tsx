@@ -0,0 +1,133 @@
+import { Archive } from 'lucide-react';
+import { PackingProgress, PackingSummary } from '../lib/packing';
+import { formatFabricArea, formatFabricLength } from '../lib/units';
+import { CollapsibleSection } from './CollapsibleSection';
+
+const getColorName = (index: number) => `Color ${index + 1}`;
+
+/**
+ * Where a "pack all colors" run has got to
+ */
+export interface PackAllProgress {
+  done: number; // colors finished
+  total: number;
+  colorIndex: number; // color being packed now
+}
+
+interface SummarySidebarProps {
+  colorIndices: number[];
+  palette: string[];
+  summaries: Map<number, PackingSummary>;
+  packAllProgress: PackAllProgress | null;
+  packingProgress: Map<number, PackingProgress>;
+  maxPackingIterations: number;
+  collapsedSections: Record<string, boolean>;
+  toggleSection: (name: string) => void;
+  onPackAll: () => void;
+  onStopPackAll: () => void;
+  onDownloadAll: () => void;
+}
+
+export function SummarySidebar({
+  colorIndices,
+  palette,
+  summaries,
+  packAllProgress,
+  packingProgress,
+  maxPackingIterations,
+  collapsedSections,
+  toggleSection,
+  onPackAll,
+  onStopPackAll,
+  onDownloadAll
+}: SummarySidebarProps) {
+  const packedCount = colorIndices.filter(index => summaries.has(index)).length;
+  const totals = Array.from(summaries.values()).reduce(
+    (sum, summary) => ({
+      sheets: sum.sheets + summary.sheets,
+      remnants: sum.remnants + summary.remnants,
+      materialArea: sum.materialArea + summary.materialArea,
+      wasteArea: sum.wasteArea + summary.wasteArea,
+      cutLength: sum.cutLength + summary.cutLength
+    }),
+    { sheets: 0, remnants: 0, materialArea: 0, wasteArea: 0, cutLength: 0 }
+  );
+
+  // Finished colors plus the share of iterations the current one has run
+  const current = packAllProgress ? packingProgress.get(packAllProgress.colorIndex) : undefined;
+  const overall = packAllProgress
+    ? (packAllProgress.done + Math.min(1, (current?.iteration ?? 0) / maxPackingIterations)) / packAllProgress.total
+    : 0;
+
+  return (
+    <>
+      <div className="controls-scrollable">
+        <CollapsibleSection
+          title="Pack All Colors"
+          isCollapsed={!!collapsedSections['pack-all']}
+          onToggle={() => toggleSection('pack-all')}
+        >
+          {packAllProgress ? (
+            <>
+              <p>
+                <strong>Packing:</strong> {getColorName(packAllProgress.colorIndex)}
+                {' '}({packAllProgress.done + 1} of {packAllProgress.total})
+              </p>
+              <progress className="pack-all-progress" value={overall} max={1} />
+              <p><strong>Overall:</strong> {(overall * 100).toFixed(0)}%</p>
+            </>
+          ) : (
+            <p><strong>Packed:</strong> {packedCount} of {colorIndices.length} colors</p>
+          )}
+          <small>
+            Colors are packed one after another with the sheet, grain and time limit settings of the
+            packing tabs. Stopping keeps the colors already packed.
+          </small>
+        </CollapsibleSection>
+
+        <CollapsibleSection
+          title="Totals"
+          isCollapsed={!!collapsedSections['pack-totals']}
+          onToggle={() => toggleSection('pack-totals')}
+        >
+          <p><strong>Sheets Used:</strong> {totals.sheets}</p>
+          {totals.remnants > 0 && <p><strong>Remnants Used:</strong> {totals.remnants}</p>}
+          <p><strong>Fabric Used:</strong> {formatFabricArea(totals.materialArea)}</p>
+          <p><strong>Waste:</strong> {formatFabricArea(totals.wasteArea)}</p>
+          <p><strong>Cut Length:</strong> {formatFabricLength(totals.cutLength)}</p>
+          {colorIndices.filter(index => !summaries.has(index)).map(index => (
+            <p key={index} style={{ color: '#E74C3C', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              <span style={{ width: '12px', height: '12px', borderRadius: '50%', background: palette[index] }} />
+              {getColorName(index)} is not packed yet
+            </p>
+          ))}
+        </CollapsibleSection>
+      </div>
+
+      <div className="controls-footer">
+        {packAllProgress ? (
+          <button
+            onClick={onStopPackAll}
+            style={{ background: 'linear-gradient(135deg, #E74C3C 0%, #C0392B 100%)', marginBottom: '0.75rem' }}
+          >
+            ⏹ Stop Packing
+          </button>
+        ) : (
+          <button
+            onClick={onPackAll}
+            style={{ background: 'linear-gradient(135deg, #3498DB 0%, #2980B9 100%)', marginBottom: '0.75rem' }}
+          >
+            📦 {packedCount > 0 ? 'Re-pack' : 'Pack'} All Colors
+          </button>
+        )}
+
+        {packedCount > 0 && (
+          <button onClick={onDownloadAll} className="export-btn" disabled={!!packAllProgress}>
+            <Archive size={16} />
+            Download All Packed SVGs (ZIP)
+          </button>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,93 @@
+import { TessellationPiece, Polygon, Point } from './types';
+import { calculateBounds } from './geometry';
+
+/**
+ * Edges closer than this to another piece's edge line count as shared, in mm
+ */
+const EDGE_TOLERANCE = 0.01;
+
+/**
+ * An edge with more than this length not covered by other pieces is on the boundary, in mm
+ */
+export const BOUNDARY_GAP = 0.1;
+
+/**
+ * Part of edge a-b that edge c-d lies along, as distances from a, or null if
+ * the edges aren't collinear or don't overlap
+ */
+export function collinearOverlap(a: Point, b: Point, c: Point, d: Point): [number, number] | null {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  if (length === 0) return null;
+  const ux = (b.x - a.x) / length;
+  const uy = (b.y - a.y) / length;
+
+  const offC = Math.abs((c.x - a.x) * uy - (c.y - a.y) * ux);
+  const offD = Math.abs((d.x - a.x) * uy - (d.y - a.y) * ux);
+  if (offC > EDGE_TOLERANCE || offD > EDGE_TOLERANCE) return null;
+
+  const tc = (c.x - a.x) * ux + (c.y - a.y) * uy;
+  const td = (d.x - a.x) * ux + (d.y - a.y) * uy;
+  const start = Math.max(0, Math.min(tc, td));
+  const end = Math.min(length, Math.max(tc, td));
+  return end > start ? [start, end] : null;
+}
+
+/**
+ * For each piece, the indices of the other pieces whose bounds touch it
+ */
+export function findNearbyPieces(pieces: TessellationPiece[]): number[][] {
+  const bounds = pieces.map(piece => calculateBounds([piece.polygon]));
+  return bounds.map((a, index) => bounds.flatMap((b, other) =>
+    other !== index &&
+    a.minX <= b.maxX + EDGE_TOLERANCE && b.minX <= a.maxX + EDGE_TOLERANCE &&
+    a.minY <= b.maxY + EDGE_TOLERANCE && b.minY <= a.maxY + EDGE_TOLERANCE
+      ? [other]
+      : []
+  ));
+}
+
+/**
+ * Longest stretch of edge two pieces have in common: the edge of poly1 it lies
+ * on and its two ends
+ */
+export function sharedSegment(poly1: Polygon, poly2: Polygon): { edge: number; start: Point; end: Point } | null {
+  let best: { edge: number; start: Point; end: Point } | null = null;
+  let bestLength = BOUNDARY_GAP;
+
+  for (let i = 0; i < poly1.length; i++) {
+    const a = poly1[i];
+    const b = poly1[(i + 1) % poly1.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+
+    for (let j = 0; j < poly2.length; j++) {
+      const overlap = collinearOverlap(a, b, poly2[j], poly2[(j + 1) % poly2.length]);
+      if (!overlap || overlap[1] - overlap[0] <= bestLength) continue;
+
+      bestLength = overlap[1] - overlap[0];
+      const along = (t: number): Point => ({ x: a.x + ((b.x - a.x) * t) / length, y: a.y + ((b.y - a.y) * t) / length });
+      best = { edge: i, start: along(overlap[0]), end: along(overlap[1]) };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Adjacency graph of a tessellation: for each piece, the indices of the pieces
+ * it shares a stretch of edge with. Unlike sharesEdge this includes pieces that
+ * meet at T-junctions, such as bricks in neighbouring rows.
+ */
+export function buildAdjacencyGraph(pieces: TessellationPiece[]): number[][] {
+  const nearby = findNearbyPieces(pieces);
+  const graph: number[][] = pieces.map(() => []);
+
+  for (let i = 0; i < pieces.length; i++) {
+    for (const j of nearby[i]) {
+      if (j < i || !sharedSegment(pieces[i].polygon, pieces[j].polygon)) continue;
+      graph[i].push(j);
+      graph[j].push(i);
+    }
+  }
+
+  return graph;
+}
@@ -0,0 +1,224 @@
+import { TessellationResult, TessellationPiece } from './types';
+import { calculateBounds, calculatePolygonCentroid } from './geometry';
+import { generateGridLabel } from './packing';
+import { polygonToPath } from './svg';
+import { downloadBlob } from './download';
+
+/**
+ * One block: a grid cell, either a single piece or split pieces sewn back together
+ */
+export interface AssemblyBlock {
+  row: number;
+  gridCol: number;
+  label: string; // "(row, col)"
+  pieces: TessellationPiece[]; // left/top piece first
+}
+
+export interface AssemblyRow {
+  row: number;
+  blocks: AssemblyBlock[]; // left to right
+  offsetX: number; // brick offset of this row's left edge, in mm
+}
+
+export interface AssemblyStep {
+  number: number;
+  stage: 'blocks' | 'rows' | 'quilt';
+  row: number;
+  text: string;
+}
+
+export interface AssemblyPlan {
+  rows: AssemblyRow[];
+  steps: AssemblyStep[];
+}
+
+/**
+ * Build the sewing order for a tessellation:
+ * split pieces into blocks, blocks into rows, then rows into the quilt
+ */
+export function buildAssemblyPlan(result: TessellationResult): AssemblyPlan {
+  const { config } = result;
+
+  // Group pieces into blocks by (row, gridCol)
+  const blocksByRow = new Map<number, Map<number, AssemblyBlock>>();
+  for (const piece of result.pieces) {
+    const rowBlocks = blocksByRow.get(piece.row) || new Map<number, AssemblyBlock>();
+    const block = rowBlocks.get(piece.gridCol) || {
+      row: piece.row,
+      gridCol: piece.gridCol,
+      label: `(${piece.row}, ${piece.gridCol})`,
+      pieces: [],
+    };
+    block.pieces.push(piece);
+    rowBlocks.set(piece.gridCol, block);
+    blocksByRow.set(piece.row, rowBlocks);
+  }
+
+  const rows: AssemblyRow[] = Array.from(blocksByRow.keys())
+    .sort((a, b) => a - b)
+    .map(row => {
+      const blocks = Array.from(blocksByRow.get(row)!.values())
+        .sort((a, b) => a.gridCol - b.gridCol)
+        .map(block => ({
+          ...block,
+          pieces: [...block.pieces].sort((a, b) => a.col - b.col),
+        }));
+      return {
+        row,
+        blocks,
+        offsetX: config.tiling === 'brick' ? (row % 2) * config.offsetAmount * config.squareSize : 0,
+      };
+    });
+
+  const steps: AssemblyStep[] = [];
+  const addStep = (stage: AssemblyStep['stage'], row: number, text: string) => {
+    steps.push({ number: steps.length + 1, stage, row, text });
+  };
+  const seam = `${config.seamAllowance.toFixed(1)} mm`;
+
+  // Stage 1: sew split pieces back into blocks
+  for (const row of rows) {
+    for (const block of row.blocks) {
+      if (block.pieces.length < 2) continue;
+
+      const labels = block.pieces.map(generateGridLabel).join(' + ');
+      const shape = block.pieces.every(p => p.isTriangle) ? 'diagonal' : 'angled';
+      addStep('blocks', row.row, `Sew ${labels} along the ${shape} seam (${seam}) to make block ${block.label}. Press the seam.`);
+    }
+  }
+
+  // Stage 2: join blocks into rows, left to right
+  for (const row of rows) {
+    const order = row.blocks.map(block => block.label).join(' → ');
+    addStep('rows', row.row, `Row ${row.row}: join blocks left to right ${order} with ${seam} seams. Press seams to one side.`);
+  }
+
+  // Stage 3: join rows top to bottom, accounting for the brick offset
+  for (let i = 1; i < rows.length; i++) {
+    const above = rows[i - 1];
+    const below = rows[i];
+    const shift = below.offsetX - above.offsetX;
+
+    let alignment: string;
+    if (Math.abs(shift) < 0.05) {
+      alignment = 'with the left edges aligned';
+    } else {
+      const direction = shift > 0 ? 'right of' : 'left of';
+      alignment = `with its left edge ${Math.abs(shift).toFixed(1)} mm ${direction} row ${above.row}'s left edge (brick offset)`;
+    }
+    addStep('quilt', below.row, `Sew row ${below.row} to the bottom of row ${above.row} ${alignment}. Pin at each vertical seam before sewing.`);
+  }
+
+  if (rows.some(row => row.offsetX > 0)) {
+    addStep('quilt', rows[rows.length - 1]?.row ?? 0, 'Square up: trim the staggered row ends on the left and right edges, leaving the seam allowance.');
+  }
+
+  return { rows, steps };
+}
+
+/**
+ * Inline SVG diagram of a set of pieces, with their grid labels
+ */
+function renderDiagram(pieces: TessellationPiece[], palette: string[], maxWidth: number): string {
+  const bounds = calculateBounds(pieces.map(p => p.polygon));
+  const padding = 4;
+  const width = bounds.maxX - bounds.minX + padding * 2;
+  const height = bounds.maxY - bounds.minY + padding * 2;
+  const fontSize = Math.max(3, Math.min(8, height / 8));
+
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width.toFixed(3)} ${height.toFixed(3)}" style="width: 100%; max-width: ${maxWidth}px">\n`;
+  svg += `  <g transform="translate(${(padding - bounds.minX).toFixed(3)}, ${(padding - bounds.minY).toFixed(3)})">\n`;
+
+  for (const piece of pieces) {
+    const color = palette[piece.colorIndex] || '#cccccc';
+    svg += `    <path d="${polygonToPath(piece.polygon)}" fill="${color}" fill-opacity="0.6" stroke="black" stroke-width="0.5"/>\n`;
+  }
+  for (const piece of pieces) {
+    const centroid = calculatePolygonCentroid(piece.polygon);
+    svg += `    <text x="${centroid.x.toFixed(3)}" y="${centroid.y.toFixed(3)}" font-family="Arial, sans-serif" font-size="${fontSize.toFixed(1)}" text-anchor="middle" dominant-baseline="middle">${generateGridLabel(piece)}</text>\n`;
+  }
+
+  svg += `  </g>\n</svg>`;
+  return svg;
+}
+
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Generate a printable HTML assembly guide with a numbered step list
+ * and a reference diagram per row
+ */
+export function generateAssemblyHTML(
+  result: TessellationResult,
+  palette: string[],
+  title: string = 'Quilt Assembly Guide'
+): string {
+  const plan = buildAssemblyPlan(result);
+  const stageTitles: Record<AssemblyStep['stage'], string> = {
+    blocks: '1. Sew split pieces into blocks',
+    rows: '2. Sew blocks into rows',
+    quilt: '3. Sew rows into the quilt',
+  };
+
+  let html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHTML(title)}</title>
+<style>
+  body { font-family: Arial, sans-serif; margin: 2rem; color: #1a202c; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { margin-top: 2rem; border-bottom: 1px solid #ccc; padding-bottom: 0.25rem; }
+  ol { padding-left: 2rem; }
+  li { margin: 0.35rem 0; }
+  .row-diagram { page-break-inside: avoid; margin: 1rem 0 1.5rem; }
+  .meta { color: #666; }
+</style>
+</head>
+<body>
+<h1>${escapeHTML(title)}</h1>
+<p class="meta">${result.pieces.length} pieces in ${plan.rows.length} rows · ${result.bounds.width.toFixed(1)} × ${result.bounds.height.toFixed(1)} mm finished · ${result.config.seamAllowance.toFixed(1)} mm seam allowance</p>
+<p class="meta">Labels match the cut pieces: (row, column), with L/R for the two halves of a split block.</p>
+
+<h2>Overview</h2>
+<div class="row-diagram">
+${renderDiagram(result.pieces, palette, 900)}
+</div>
+`;
+
+  for (const stage of ['blocks', 'rows', 'quilt'] as const) {
+    const stageSteps = plan.steps.filter(step => step.stage === stage);
+    if (stageSteps.length === 0) continue;
+
+    html += `\n<h2>${stageTitles[stage]}</h2>\n<ol start="${stageSteps[0].number}">\n`;
+    for (const step of stageSteps) {
+      html += `  <li>${escapeHTML(step.text)}</li>\n`;
+    }
+    html += `</ol>\n`;
+  }
+
+  html += `\n<h2>Row reference diagrams</h2>\n`;
+  for (const row of plan.rows) {
+    const rowPieces = row.blocks.flatMap(block => block.pieces);
+    html += `<div class="row-diagram">
+<h3>Row ${row.row}${row.offsetX > 0 ? ` (offset ${row.offsetX.toFixed(1)} mm)` : ''}</h3>
+${renderDiagram(rowPieces, palette, 900)}
+</div>
+`;
+  }
+
+  html += `</body>
+</html>
+`;
+
+  return html;
+}
+
+/**
+ * Download helper for browser
+ */
+export function downloadAssemblyGuide(html: string, filename: string): void {
+  downloadBlob(new Blob([html], { type: 'text/html' }), filename);
+}
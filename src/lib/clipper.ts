@@ -0,0 +1,167 @@
+import { Clipper, Clipper64, ClipperOffset, ClipType, EndType, FillRule, JoinType, Minkowski, Path64, Paths64 } from 'clipper2-js';
+import { Polygon } from './types';
+
+/**
+ * clipper2 works on integer coordinates: mm are scaled to µm
+ */
+export const CLIPPER_SCALE = 1000;
+
+/**
+ * Smallest polygon area worth keeping from a clip, in mm² (anything below is rounding debris)
+ */
+const MIN_AREA = 0.01;
+
+/**
+ * Largest distance a flattened round join may stray from the true arc, in mm
+ */
+export const ARC_TOLERANCE = 0.05;
+
+export function toPath64(polygon: Polygon): Path64 {
+  const path = new Path64();
+  for (const point of polygon) {
+    path.push({ x: Math.round(point.x * CLIPPER_SCALE), y: Math.round(point.y * CLIPPER_SCALE) });
+  }
+  return path;
+}
+
+export function toPaths64(polygons: Polygon[]): Paths64 {
+  const paths = new Paths64();
+  for (const polygon of polygons) {
+    paths.push(toPath64(polygon));
+  }
+  return paths;
+}
+
+export function fromPath64(path: Path64): Polygon {
+  return path.map(point => ({ x: point.x / CLIPPER_SCALE, y: point.y / CLIPPER_SCALE }));
+}
+
+/**
+ * Convert clipper output back to mm polygons, dropping empty and debris paths
+ */
+export function fromPaths64(paths: Paths64): Polygon[] {
+  return paths
+    .filter(path => path.length >= 3 && Math.abs(Clipper.area(path)) / (CLIPPER_SCALE * CLIPPER_SCALE) >= MIN_AREA)
+    .map(fromPath64);
+}
+
+/**
+ * Intersect a polygon with a clip region. May return several polygons
+ * when a concave region cuts the subject into separate parts.
+ */
+export function intersectPolygons(subject: Polygon, clip: Polygon[]): Polygon[] {
+  return fromPaths64(Clipper.Intersect(toPaths64([subject]), toPaths64(clip), FillRule.NonZero));
+}
+
+/**
+ * Run a boolean operation, dropping the collinear vertices left where the inputs met
+ */
+function booleanOperation(clipType: ClipType, subject: Polygon[], clip: Polygon[] = []): Polygon[] {
+  const clipper = new Clipper64();
+  clipper.preserveCollinear = false;
+  clipper.addSubjectPaths(toPaths64(subject));
+  if (clip.length > 0) clipper.addClipPaths(toPaths64(clip));
+  const solution = new Paths64();
+  clipper.execute(clipType, FillRule.NonZero, solution);
+  return fromPaths64(solution);
+}
+
+/**
+ * Cut the clip polygons out of a subject polygon
+ */
+export function differencePolygons(subject: Polygon, clip: Polygon[]): Polygon[] {
+  return booleanOperation(ClipType.Difference, [subject], clip);
+}
+
+/**
+ * Offsets by which `part` can be moved so it lies inside `outline` without
+ * overlapping any of the `obstacles` (touching is fine), as polygons that may
+ * have holes. The part overlaps an obstacle when their edges cross (the
+ * Minkowski difference of the two outlines), when one of its points is inside
+ * the obstacle, or when one of the obstacle's points is inside it.
+ */
+export function fitRegion(part: Polygon, outline: Polygon, obstacles: Polygon[]): Polygon[] {
+  const anchor = part[0];
+  const partPath = toPath64(part);
+  const shift = (polygon: Polygon, dx: number, dy: number) => polygon.map(p => ({ x: p.x + dx, y: p.y + dy }));
+
+  // The union clipper2-js runs on the quads leaves zero-area debris behind
+  const edgesCross = (ring: Polygon) =>
+    Minkowski.diff(partPath, toPath64(ring), true).filter(path => Math.abs(Clipper.area(path)) > 0);
+
+  // One solid region per obstacle, so the final difference never sees holes and overlapping windings
+  const forbidden = new Paths64();
+  forbidden.push(...edgesCross(outline));
+  for (const obstacle of obstacles) {
+    const overlaps = new Paths64();
+    overlaps.push(...edgesCross(obstacle));
+    overlaps.push(toPath64(shift(obstacle, -anchor.x, -anchor.y)));
+    overlaps.push(toPath64(part.map(p => ({ x: obstacle[0].x - p.x, y: obstacle[0].y - p.y }))));
+    forbidden.push(...Clipper.Union(overlaps, undefined, FillRule.NonZero));
+  }
+
+  const clipper = new Clipper64();
+  clipper.addSubject(toPath64(shift(outline, -anchor.x, -anchor.y)));
+  clipper.addClipPaths(forbidden);
+  const solution = new Paths64();
+  clipper.execute(ClipType.Difference, FillRule.NonZero, solution);
+  return fromPaths64(solution);
+}
+
+/**
+ * Merge overlapping polygons into their outline(s)
+ */
+export function unionPolygons(polygons: Polygon[]): Polygon[] {
+  return booleanOperation(ClipType.Union, polygons);
+}
+
+/**
+ * The parts of ClipperOffset that offsetPolygon touches (private in the typings)
+ */
+interface ClipperOffsetInternals {
+  _groupDelta: number;
+  offsetPoint(group: ClipperOffsetGroup, path: Path64, j: number, k: number): void;
+}
+
+interface ClipperOffsetGroup {
+  outPath: Path64;
+  outPaths: Path64[];
+}
+
+/**
+ * ClipperOffset with offsetPolygon fixed: clipper2-js 1.2 ports it from C#
+ * without its `ref` previous-vertex index, so every corner is joined against
+ * the closing edge instead of the edge before it. This loop carries the
+ * previous index along.
+ */
+// @ts-expect-error offsetPolygon is private in the typings
+class PolygonOffset extends ClipperOffset {
+  protected offsetPolygon(group: ClipperOffsetGroup, path: Path64): void {
+    const internals = this as unknown as ClipperOffsetInternals;
+    const area = Clipper.area(path);
+    if ((area < 0) !== (internals._groupDelta < 0)) {
+      // Shrinking by more than half the smallest dimension leaves nothing
+      const rect = Clipper.getBounds(path);
+      const offsetMinDim = Math.abs(internals._groupDelta) * 2;
+      if (offsetMinDim > rect.width || offsetMinDim > rect.height) return;
+    }
+
+    group.outPath = new Path64();
+    for (let i = 0, prev = path.length - 1; i < path.length; prev = i, i++) {
+      internals.offsetPoint(group, path, i, prev);
+    }
+    group.outPaths.push(group.outPath);
+  }
+}
+
+/**
+ * Grow (positive delta) or shrink (negative delta) closed polygons by delta mm
+ * @param miterLimit - largest miter length as a multiple of delta; longer miters are squared off
+ */
+export function inflatePolygons(polygons: Polygon[], delta: number, joinType: JoinType, miterLimit: number): Polygon[] {
+  const offsetter = new PolygonOffset(miterLimit, ARC_TOLERANCE * CLIPPER_SCALE);
+  offsetter.addPaths(toPaths64(polygons), joinType, EndType.Polygon);
+  const solution = new Paths64();
+  offsetter.execute(delta * CLIPPER_SCALE, solution);
+  return fromPaths64(solution);
+}
@@ -0,0 +1,217 @@
+import { TessellationPiece } from './types';
+import { calculatePolygonArea } from './geometry';
+import { buildAdjacencyGraph } from './adjacency';
+import { RandomFn } from './random';
+
+/**
+ * Default for how far a color's share of the fabric area may stray from its
+ * target in balanced mode, in percentage points
+ */
+export const DEFAULT_COLOR_TOLERANCE = 2;
+
+/**
+ * Min-conflicts moves per recolorable piece when DSatur leaves same-color neighbours
+ */
+const REPAIR_STEPS_PER_PIECE = 20;
+
+/**
+ * Rebalancing effort: annealing steps per recolorable piece, capped overall
+ */
+const ANNEALING_STEPS_PER_PIECE = 400;
+const MAX_ANNEALING_STEPS = 200000;
+
+/**
+ * Annealing temperatures, in squared percentage points of deviation
+ */
+const INITIAL_TEMPERATURE = 20;
+const FINAL_TEMPERATURE = 0.01;
+
+/**
+ * Cost of one pair of same-color neighbours, against squared percentage points of deviation
+ */
+const CONFLICT_WEIGHT = 50;
+
+export interface ColorShare {
+  colorIndex: number;
+  pieces: number;
+  area: number; // mm²
+  share: number; // % of the total area
+  target: number; // requested %, from colorProbabilities
+}
+
+export interface ColorReport {
+  colors: ColorShare[];
+  sameColorNeighbours: number; // pairs of pieces sharing an edge that have the same color
+  maxDeviation: number; // largest gap between a share and its target, in percentage points
+}
+
+/**
+ * Requested share of each color in %, normalised to add up to 100
+ */
+function targetShares(colorProbabilities: number[], numColors: number): number[] {
+  const weights = Array.from({ length: numColors }, (_, c) => Math.max(0, colorProbabilities[c] || 0));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map(w => (total > 0 ? (w / total) * 100 : 100 / numColors));
+}
+
+/**
+ * Assign colors by graph coloring on the adjacency graph, then rebalance so
+ * each color's share of the total area is within `tolerance` percentage points
+ * of its target where the layout allows it.
+ * Pieces that already have a color (locked pieces) keep it.
+ * @param sameColorProbability - chance (0-1) that a pair of neighbours may share a
+ * color, decided once per pair; at 0 no neighbours share a color unless the graph
+ * can't be colored with numColors
+ */
+export function assignBalancedColors(
+  pieces: TessellationPiece[],
+  numColors: number,
+  sameColorProbability: number,
+  colorProbabilities: number[],
+  tolerance: number,
+  random: RandomFn
+): void {
+  const n = pieces.length;
+  if (n === 0 || numColors < 1) return;
+
+  // Neighbours that must differ: each adjacency is exempt with sameColorProbability
+  const graph = buildAdjacencyGraph(pieces);
+  const constrained: number[][] = pieces.map(() => []);
+  for (let i = 0; i < n; i++) {
+    for (const j of graph[i]) {
+      if (j < i || random() < sameColorProbability) continue;
+      constrained[i].push(j);
+      constrained[j].push(i);
+    }
+  }
+
+  const areas = pieces.map(piece => calculatePolygonArea(piece.polygon));
+  const totalArea = areas.reduce((sum, area) => sum + area, 0) || 1;
+  const targets = targetShares(colorProbabilities, numColors).map(share => (share / 100) * totalArea);
+  const assigned: number[] = Array(numColors).fill(0);
+  const fixed = pieces.map(piece => piece.colorIndex !== -1);
+  const colors = pieces.map(piece => piece.colorIndex);
+  colors.forEach((color, i) => {
+    if (color >= 0 && color < numColors) assigned[color] += areas[i];
+  });
+
+  const conflicts = (i: number, color: number) => constrained[i].filter(j => colors[j] === color).length;
+
+  // STEP 1: DSatur - color the piece whose neighbours already use the most colors,
+  // largest first, with the allowed color furthest below its target
+  for (let step = fixed.filter(Boolean).length; step < n; step++) {
+    let next = -1;
+    let bestSaturation = -1;
+    for (let i = 0; i < n; i++) {
+      if (colors[i] !== -1) continue;
+      const saturation = new Set(constrained[i].map(j => colors[j]).filter(color => color !== -1)).size;
+      if (saturation > bestSaturation || (saturation === bestSaturation && areas[i] > areas[next])) {
+        next = i;
+        bestSaturation = saturation;
+      }
+    }
+
+    const fewestConflicts = Math.min(...Array.from({ length: numColors }, (_, c) => conflicts(next, c)));
+    let choice = 0;
+    let bestDeficit = -Infinity;
+    for (let c = 0; c < numColors; c++) {
+      if (conflicts(next, c) > fewestConflicts) continue;
+      const deficit = targets[c] - assigned[c] + random() * 1e-6; // random tie-break
+      if (deficit > bestDeficit) {
+        choice = c;
+        bestDeficit = deficit;
+      }
+    }
+
+    colors[next] = choice;
+    assigned[choice] += areas[next];
+  }
+
+  // STEP 2: DSatur can paint itself into a corner - repair with min-conflicts moves,
+  // recoloring a clashing piece to the color its neighbours use least
+  const free = colors.flatMap((_, i) => (fixed[i] ? [] : [i]));
+  for (let step = 0; step < REPAIR_STEPS_PER_PIECE * free.length && numColors > 1; step++) {
+    const clashing = free.filter(i => conflicts(i, colors[i]) > 0);
+    if (clashing.length === 0) break;
+
+    const i = clashing[Math.floor(random() * clashing.length)];
+    const options = Array.from({ length: numColors }, (_, c) => c).filter(c => c !== colors[i]);
+    const fewest = Math.min(...options.map(c => conflicts(i, c)));
+    const choices = options.filter(c => conflicts(i, c) === fewest);
+    const to = choices[Math.floor(random() * choices.length)];
+    assigned[colors[i]] -= areas[i];
+    assigned[to] += areas[i];
+    colors[i] = to;
+  }
+
+  // STEP 3: Rebalance by simulated annealing over single-piece recolors. Same-color
+  // neighbours are allowed along the way at a cost, but the result never has
+  // more of them than the repair pass left.
+  const share = (area: number) => (area / totalArea) * 100;
+  const deviation = (c: number) => share(assigned[c] - targets[c]);
+  let conflictCount = colors.reduce((sum, color, i) => sum + conflicts(i, color), 0) / 2;
+  let error = assigned.reduce((sum, _, c) => sum + deviation(c) ** 2, 0);
+  const withinTolerance = () => assigned.every((_, c) => Math.abs(deviation(c)) <= tolerance);
+
+  let best = { colors: [...colors], conflicts: conflictCount, error };
+  const iterations = Math.min(MAX_ANNEALING_STEPS, ANNEALING_STEPS_PER_PIECE * free.length);
+  const cooling = Math.pow(FINAL_TEMPERATURE / INITIAL_TEMPERATURE, 1 / Math.max(1, iterations));
+  let temperature = INITIAL_TEMPERATURE;
+
+  for (let step = 0; step < iterations && numColors > 1; step++, temperature *= cooling) {
+    if (best.conflicts === 0 && step % free.length === 0 && withinTolerance()) break;
+
+    const i = free[Math.floor(random() * free.length)];
+    const from = colors[i];
+    const to = (from + 1 + Math.floor(random() * (numColors - 1))) % numColors;
+    const moved = share(areas[i]);
+    const conflictDelta = conflicts(i, to) - conflicts(i, from);
+    const errorDelta =
+      (deviation(from) - moved) ** 2 - deviation(from) ** 2 +
+      (deviation(to) + moved) ** 2 - deviation(to) ** 2;
+    const delta = conflictDelta * CONFLICT_WEIGHT + errorDelta;
+    if (delta > 0 && random() >= Math.exp(-delta / temperature)) continue;
+
+    colors[i] = to;
+    assigned[from] -= areas[i];
+    assigned[to] += areas[i];
+    conflictCount += conflictDelta;
+    error += errorDelta;
+
+    if (conflictCount < best.conflicts || (conflictCount === best.conflicts && error < best.error - 1e-9)) {
+      best = { colors: [...colors], conflicts: conflictCount, error };
+    }
+  }
+
+  pieces.forEach((piece, i) => {
+    piece.colorIndex = best.colors[i];
+  });
+}
+
+/**
+ * Achieved share of the fabric area per color against its target, and how many
+ * neighbouring pieces ended up with the same color
+ */
+export function colorReport(pieces: TessellationPiece[], numColors: number, colorProbabilities: number[]): ColorReport {
+  const targets = targetShares(colorProbabilities, numColors);
+  const areas = pieces.map(piece => calculatePolygonArea(piece.polygon));
+  const totalArea = areas.reduce((sum, area) => sum + area, 0) || 1;
+
+  const colors: ColorShare[] = targets.map((target, colorIndex) => {
+    const indices = pieces.flatMap((piece, i) => (piece.colorIndex === colorIndex ? [i] : []));
+    const area = indices.reduce((sum, i) => sum + areas[i], 0);
+    return { colorIndex, pieces: indices.length, area, share: (area / totalArea) * 100, target };
+  });
+
+  const graph = buildAdjacencyGraph(pieces);
+  let sameColorNeighbours = 0;
+  graph.forEach((neighbours, i) => {
+    sameColorNeighbours += neighbours.filter(j => j > i && pieces[j].colorIndex === pieces[i].colorIndex).length;
+  });
+
+  return {
+    colors,
+    sameColorNeighbours,
+    maxDeviation: Math.max(0, ...colors.map(color => Math.abs(color.share - color.target))),
+  };
+}
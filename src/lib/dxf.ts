@@ -0,0 +1,265 @@
+import { Polygon } from './types';
+import { transformPolygon, calculatePolygonCentroid } from './geometry';
+import { PackedResult, PackedSheet, generateGridLabel, sheetBoundary, stackSheets } from './packing';
+import { downloadBlob } from './download';
+
+export type DXFUnits = 'mm' | 'in';
+
+/**
+ * File formats a packed layout can be downloaded as
+ */
+export type ExportFormat = 'svg' | 'dxf';
+
+/**
+ * Named layers, so cutting software can assign a different operation to each
+ */
+export const DXF_LAYERS = {
+  cut: { name: 'CUT', color: 1 }, // red
+  sewing: { name: 'SEWING', color: 5, lineType: 'DASHED' }, // blue
+  labels: { name: 'LABELS', color: 3 }, // green
+  sheet: { name: 'SHEET', color: 8 }, // grey
+} as const;
+
+/**
+ * $INSUNITS codes for the units we support
+ */
+const INSUNITS: Record<DXFUnits, number> = {
+  mm: 4,
+  in: 1,
+};
+
+const MM_PER_UNIT: Record<DXFUnits, number> = {
+  mm: 1,
+  in: 25.4,
+};
+
+/**
+ * Gap left between stacked sheets, in mm
+ */
+const SHEET_GAP = 30;
+
+interface PackedDXFOptions {
+  units?: DXFUnits;
+  showLabels?: boolean;
+  showSewingLines?: boolean;
+  labelHeight?: number; // in mm
+}
+
+/**
+ * Accumulates DXF group code / value pairs
+ */
+class DXFWriter {
+  private lines: string[] = [];
+
+  pair(code: number, value: string | number): void {
+    this.lines.push(String(code), typeof value === 'number' ? formatNumber(value) : value);
+  }
+
+  toString(): string {
+    return this.lines.join('\n') + '\n';
+  }
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(4);
+}
+
+/**
+ * Header, line types and layer table shared by every DXF we write
+ */
+function writePreamble(writer: DXFWriter, units: DXFUnits, width: number, height: number): void {
+  writer.pair(0, 'SECTION');
+  writer.pair(2, 'HEADER');
+  writer.pair(9, '$ACADVER');
+  writer.pair(1, 'AC1009');
+  writer.pair(9, '$INSUNITS');
+  writer.pair(70, INSUNITS[units]);
+  writer.pair(9, '$MEASUREMENT');
+  writer.pair(70, units === 'mm' ? 1 : 0);
+  writer.pair(9, '$EXTMIN');
+  writer.pair(10, 0);
+  writer.pair(20, 0);
+  writer.pair(9, '$EXTMAX');
+  writer.pair(10, width);
+  writer.pair(20, height);
+  writer.pair(0, 'ENDSEC');
+
+  writer.pair(0, 'SECTION');
+  writer.pair(2, 'TABLES');
+
+  // Line types
+  writer.pair(0, 'TABLE');
+  writer.pair(2, 'LTYPE');
+  writer.pair(70, 2);
+  writer.pair(0, 'LTYPE');
+  writer.pair(2, 'CONTINUOUS');
+  writer.pair(70, 0);
+  writer.pair(3, 'Solid line');
+  writer.pair(72, 65);
+  writer.pair(73, 0);
+  writer.pair(40, 0);
+  const dash = 3 / MM_PER_UNIT[units];
+  writer.pair(0, 'LTYPE');
+  writer.pair(2, 'DASHED');
+  writer.pair(70, 0);
+  writer.pair(3, 'Dashed __ __ __');
+  writer.pair(72, 65);
+  writer.pair(73, 2);
+  writer.pair(40, dash * 2);
+  writer.pair(49, dash);
+  writer.pair(49, -dash);
+  writer.pair(0, 'ENDTAB');
+
+  // Layers
+  const layers = Object.values(DXF_LAYERS);
+  writer.pair(0, 'TABLE');
+  writer.pair(2, 'LAYER');
+  writer.pair(70, layers.length);
+  for (const layer of layers) {
+    writer.pair(0, 'LAYER');
+    writer.pair(2, layer.name);
+    writer.pair(70, 0);
+    writer.pair(62, layer.color);
+    writer.pair(6, 'lineType' in layer ? layer.lineType : 'CONTINUOUS');
+  }
+  writer.pair(0, 'ENDTAB');
+
+  writer.pair(0, 'ENDSEC');
+}
+
+/**
+ * Closed polyline entity (R12 POLYLINE / VERTEX / SEQEND)
+ */
+function writePolyline(writer: DXFWriter, layer: string, polygon: Polygon): void {
+  writer.pair(0, 'POLYLINE');
+  writer.pair(8, layer);
+  writer.pair(66, 1);
+  writer.pair(10, 0);
+  writer.pair(20, 0);
+  writer.pair(30, 0);
+  writer.pair(70, 1); // closed
+
+  for (const point of polygon) {
+    writer.pair(0, 'VERTEX');
+    writer.pair(8, layer);
+    writer.pair(10, point.x);
+    writer.pair(20, point.y);
+    writer.pair(30, 0);
+  }
+
+  writer.pair(0, 'SEQEND');
+  writer.pair(8, layer);
+}
+
+/**
+ * Single-line text entity, centred on (x, y)
+ */
+function writeText(writer: DXFWriter, layer: string, x: number, y: number, height: number, text: string): void {
+  writer.pair(0, 'TEXT');
+  writer.pair(8, layer);
+  writer.pair(10, x);
+  writer.pair(20, y);
+  writer.pair(30, 0);
+  writer.pair(40, height);
+  writer.pair(1, text);
+  writer.pair(72, 1); // centre
+  writer.pair(11, x);
+  writer.pair(21, y);
+  writer.pair(31, 0);
+  writer.pair(73, 2); // middle
+}
+
+/**
+ * Write one sheet's entities. `originY` is the sheet's top edge in layout mm (y down);
+ * `layoutHeight` is the full layout height used to flip into DXF's y-up space.
+ */
+function writeSheet(
+  writer: DXFWriter,
+  packed: PackedResult,
+  sheet: PackedSheet,
+  originY: number,
+  layoutHeight: number,
+  options: Required<PackedDXFOptions>
+): void {
+  const scale = 1 / MM_PER_UNIT[options.units];
+
+  // Layout mm (y down) -> DXF units (y up)
+  const toDXF = (polygon: Polygon): Polygon => polygon.map(point => ({
+    x: point.x * scale,
+    y: (layoutHeight - (originY + point.y)) * scale,
+  }));
+
+  // The sheet, or a remnant's outline and holes
+  for (const boundary of sheetBoundary(packed, sheet)) {
+    writePolyline(writer, DXF_LAYERS.sheet.name, toDXF(boundary));
+  }
+
+  for (const packedPiece of sheet.pieces) {
+    const { x, y, rotation } = packedPiece;
+
+    if (options.showSewingLines) {
+      writePolyline(writer, DXF_LAYERS.sewing.name, toDXF(transformPolygon(packedPiece.originalPiece.polygon, x, y, rotation)));
+    }
+
+    writePolyline(writer, DXF_LAYERS.cut.name, toDXF(transformPolygon(packedPiece.piece.polygon, x, y, rotation)));
+
+    if (options.showLabels) {
+      const centroid = calculatePolygonCentroid(packedPiece.piece.polygon);
+      const [labelPoint] = toDXF(transformPolygon([centroid], x, y, rotation));
+      writeText(writer, DXF_LAYERS.labels.name, labelPoint.x, labelPoint.y, options.labelHeight * scale, generateGridLabel(packedPiece.originalPiece));
+    }
+  }
+}
+
+/**
+ * Build a DXF from a list of sheets, stacked top to bottom
+ */
+function buildDXF(packed: PackedResult, sheets: PackedSheet[], options: PackedDXFOptions): string {
+  const resolved: Required<PackedDXFOptions> = {
+    units: options.units ?? 'mm',
+    showLabels: options.showLabels ?? true,
+    showSewingLines: options.showSewingLines ?? true,
+    labelHeight: options.labelHeight ?? 6,
+  };
+  const scale = 1 / MM_PER_UNIT[resolved.units];
+
+  const stack = stackSheets(packed, sheets, SHEET_GAP);
+  const layoutHeight = stack.height - SHEET_GAP;
+
+  const writer = new DXFWriter();
+  writePreamble(writer, resolved.units, stack.width * scale, layoutHeight * scale);
+
+  writer.pair(0, 'SECTION');
+  writer.pair(2, 'ENTITIES');
+  sheets.forEach((sheet, index) => {
+    writeSheet(writer, packed, sheet, stack.offsets[index], layoutHeight, resolved);
+  });
+  writer.pair(0, 'ENDSEC');
+  writer.pair(0, 'EOF');
+
+  return writer.toString();
+}
+
+/**
+ * Generate a DXF for a packed layout
+ * Cut lines, sewing lines and labels go on separate named layers, with placement
+ * transforms applied and coordinates in real mm or inches. All sheets are stacked
+ * vertically in one drawing.
+ */
+export function generatePackedDXF(packed: PackedResult, options: PackedDXFOptions = {}): string {
+  return buildDXF(packed, packed.sheets, options);
+}
+
+/**
+ * Generate one standalone DXF per sheet, in sheet order
+ */
+export function generatePackedSheetDXFs(packed: PackedResult, options: PackedDXFOptions = {}): string[] {
+  return packed.sheets.map(sheet => buildDXF(packed, [sheet], options));
+}
+
+/**
+ * Download helper for browser
+ */
+export function downloadDXF(dxf: string, filename: string): void {
+  downloadBlob(new Blob([dxf], { type: 'application/dxf' }), filename);
+}
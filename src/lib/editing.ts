@@ -0,0 +1,230 @@
+import { TessellationResult, TessellationPiece, Point, Polygon } from './types';
+import { calculateBounds, calculatePolygonArea, cutPolygon, signedArea, pointInPolygon } from './geometry';
+import { intersectPolygons, unionPolygons } from './clipper';
+import { markBoundaryEdges, markNotches } from './tessellation';
+import { findNearbyPieces, sharedSegment } from './adjacency';
+
+/**
+ * Corners closer than this are the same vertex, in mm
+ */
+const VERTEX_TOLERANCE = 0.01;
+
+/**
+ * Smallest piece an edit may leave behind, in mm²
+ */
+const MIN_PIECE_AREA = 1;
+
+/**
+ * How much a moved piece may overlap a neighbour before the move is refused,
+ * in mm² (rounding along the shared edges)
+ */
+const OVERLAP_TOLERANCE = 0.01;
+
+function samePoint(a: Point, b: Point): boolean {
+  return Math.abs(a.x - b.x) < VERTEX_TOLERANCE && Math.abs(a.y - b.y) < VERTEX_TOLERANCE;
+}
+
+/**
+ * Whether a point lies on edge a-b away from its ends (a T-junction, where a
+ * brick corner meets the middle of the edge of the row above)
+ */
+function onEdgeInterior(point: Point, a: Point, b: Point): boolean {
+  const ex = b.x - a.x;
+  const ey = b.y - a.y;
+  const lengthSquared = ex * ex + ey * ey;
+  if (lengthSquared === 0 || samePoint(point, a) || samePoint(point, b)) return false;
+
+  const t = ((point.x - a.x) * ex + (point.y - a.y) * ey) / lengthSquared;
+  if (t <= 0 || t >= 1) return false;
+  return Math.hypot(point.x - (a.x + ex * t), point.y - (a.y + ey * t)) < VERTEX_TOLERANCE;
+}
+
+/**
+ * Whether segments a-b and c-d cross at a point inside both
+ */
+function segmentsCross(a: Point, b: Point, c: Point, d: Point): boolean {
+  const side = (p: Point, q: Point, r: Point) => (q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x);
+  const d1 = side(c, d, a);
+  const d2 = side(c, d, b);
+  const d3 = side(a, b, c);
+  const d4 = side(a, b, d);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+/**
+ * Whether no two non-neighbouring edges of a polygon cross
+ */
+function isSimple(polygon: Polygon): boolean {
+  const n = polygon.length;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue;
+      if (segmentsCross(polygon[i], polygon[(i + 1) % n], polygon[j], polygon[(j + 1) % n])) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Recompute what depends on the piece outlines: outer edges, notches and bounds
+ */
+function withPieces(result: TessellationResult, pieces: TessellationPiece[]): TessellationResult {
+  const refreshed = markNotches(markBoundaryEdges(pieces));
+  const bounds = calculateBounds(refreshed.map(piece => piece.polygon));
+  return {
+    ...result,
+    pieces: refreshed,
+    bounds: {
+      width: bounds.maxX - bounds.minX,
+      height: bounds.maxY - bounds.minY,
+    },
+  };
+}
+
+/**
+ * Piece containing a point, if any
+ */
+export function pieceAt(result: TessellationResult, point: Point): TessellationPiece | undefined {
+  return result.pieces.find(piece => pointInPolygon(point, piece.polygon));
+}
+
+/**
+ * Corner nearest to a point within maxDistance (mm), or null if there is none
+ */
+export function findNearestVertex(result: TessellationResult, point: Point, maxDistance: number): Point | null {
+  let nearest: Point | null = null;
+  let nearestDistance = maxDistance;
+
+  for (const piece of result.pieces) {
+    for (const vertex of piece.polygon) {
+      const distance = Math.hypot(vertex.x - point.x, vertex.y - point.y);
+      if (distance <= nearestDistance) {
+        nearest = vertex;
+        nearestDistance = distance;
+      }
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Move a corner, together with the same corner of every piece that shares it,
+ * so the tiling stays watertight. Pieces with the corner in the middle of an
+ * edge gain a vertex there and bend with it.
+ * Returns null if nothing is at `from` or the move would fold a piece over
+ * itself or a neighbour.
+ */
+export function moveVertex(result: TessellationResult, from: Point, to: Point): TessellationResult | null {
+  const corners = result.pieces.flatMap(piece => piece.polygon);
+  const moved = new Set<number>();
+
+  // Corners of any piece lying along edge a-b, ordered from a to b
+  const cornersAlong = (a: Point, b: Point): Point[] => {
+    const along = corners
+      .filter(corner => onEdgeInterior(corner, a, b))
+      .sort((c1, c2) => Math.hypot(c1.x - a.x, c1.y - a.y) - Math.hypot(c2.x - a.x, c2.y - a.y));
+    return along.filter((corner, i) => i === 0 || !samePoint(corner, along[i - 1]));
+  };
+
+  const pieces = result.pieces.map((piece, index) => {
+    // Pieces with the corner in the middle of an edge get a corner there
+    let polygon: Polygon = piece.polygon.flatMap((vertex, i) =>
+      onEdgeInterior(from, vertex, piece.polygon[(i + 1) % piece.polygon.length]) ? [vertex, from] : [vertex]
+    );
+    const at = polygon.findIndex(vertex => samePoint(vertex, from));
+    if (at === -1) return piece;
+
+    // The edges either side pivot on the moved corner. Neighbours' corners along
+    // them become corners here too, so those neighbours stay attached.
+    const n = polygon.length;
+    const before = cornersAlong(polygon[(at - 1 + n) % n], from);
+    const after = cornersAlong(from, polygon[(at + 1) % n]);
+    polygon = [...polygon.slice(0, at), ...before, { ...to }, ...after, ...polygon.slice(at + 1)];
+
+    moved.add(index);
+    return { ...piece, polygon, isTriangle: polygon.length === 3 };
+  });
+
+  if (moved.size === 0) return null;
+
+  // A piece that turns inside out or crosses itself has been dragged over a neighbour
+  for (const index of moved) {
+    const before = result.pieces[index].polygon;
+    const after = pieces[index].polygon;
+    if (!isSimple(after) ||
+        Math.sign(signedArea(after)) !== Math.sign(signedArea(before)) ||
+        calculatePolygonArea(after) < MIN_PIECE_AREA) {
+      return null;
+    }
+  }
+
+  // A corner dragged past a neighbour's edge can stay simple and still cover it
+  const nearby = findNearbyPieces(pieces);
+  for (const index of moved) {
+    const overlaps = nearby[index]
+      .filter(other => !moved.has(other))
+      .some(other => intersectPolygons(pieces[index].polygon, [pieces[other].polygon])
+        .some(overlap => calculatePolygonArea(overlap) > OVERLAP_TOLERANCE));
+    if (overlaps) return null;
+  }
+
+  return withPieces(result, pieces);
+}
+
+/**
+ * Split the piece under the midpoint of a-b in two along the line through a
+ * and b. Both halves keep the piece's color and grid position.
+ * Returns null if no piece is there or a half would be too small.
+ */
+export function splitPieceAlongLine(result: TessellationResult, a: Point, b: Point): TessellationResult | null {
+  const piece = pieceAt(result, { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+  if (!piece) return null;
+
+  const parts = cutPolygon(piece.polygon, a, b);
+  if (!parts || parts.some(part => calculatePolygonArea(part) < MIN_PIECE_AREA)) return null;
+
+  const ids = new Set(result.pieces.map(p => p.id));
+  const uniqueId = (base: string) => {
+    let id = base;
+    for (let k = 2; ids.has(id); k++) id = `${base}${k}`;
+    ids.add(id);
+    return id;
+  };
+
+  const halves = parts.map((polygon, k): TessellationPiece => ({
+    ...piece,
+    id: uniqueId(`${piece.id}-${k === 0 ? 'a' : 'b'}`),
+    polygon,
+    isTriangle: polygon.length === 3,
+  }));
+
+  return withPieces(result, result.pieces.flatMap(p => (p === piece ? halves : [p])));
+}
+
+/**
+ * Join two pieces that share an edge into one. The merged piece keeps the id,
+ * color and grid position of the first.
+ * Returns null if the pieces don't share an edge.
+ */
+export function mergePieces(result: TessellationResult, firstId: string, secondId: string): TessellationResult | null {
+  const first = result.pieces.find(piece => piece.id === firstId);
+  const second = result.pieces.find(piece => piece.id === secondId);
+  if (!first || !second || first === second) return null;
+  if (!sharedSegment(first.polygon, second.polygon)) return null;
+
+  const merged = unionPolygons([first.polygon, second.polygon]);
+  if (merged.length !== 1) return null;
+
+  // clipper rounds to µm: snap back onto the original corners so neighbours still line up
+  const corners = [...first.polygon, ...second.polygon];
+  let polygon = merged[0].map(point => corners.find(corner => samePoint(corner, point)) ?? point);
+  if (Math.sign(signedArea(polygon)) !== Math.sign(signedArea(first.polygon))) {
+    polygon = [...polygon].reverse();
+  }
+
+  const piece: TessellationPiece = { ...first, polygon, isTriangle: polygon.length === 3 };
+  return withPieces(result, result.pieces
+    .filter(p => p !== second)
+    .map(p => (p === first ? piece : p)));
+}
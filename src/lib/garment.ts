@@ -0,0 +1,375 @@
+import { Point, Polygon, TessellationPiece } from './types';
+import { calculateBounds, transformPolygon, calculatePolygonArea } from './geometry';
+import { intersectPolygons } from './clipper';
+
+/**
+ * Segments used to flatten each curve
+ */
+const CURVE_SEGMENTS = 16;
+
+/**
+ * Built-in pattern blocks, in mm with y pointing down
+ */
+export type GarmentBlockName = 'a-line-skirt' | 'bodice-front' | 'sleeve';
+
+/**
+ * Flatten a quadratic Bézier from `from` (not included) to `to`
+ */
+function quadraticTo(from: Point, control: Point, to: Point, segments: number = CURVE_SEGMENTS): Point[] {
+  const points: Point[] = [];
+  for (let i = 1; i <= segments; i++) {
+    const t = i / segments;
+    const u = 1 - t;
+    points.push({
+      x: u * u * from.x + 2 * u * t * control.x + t * t * to.x,
+      y: u * u * from.y + 2 * u * t * control.y + t * t * to.y,
+    });
+  }
+  return points;
+}
+
+/**
+ * Flatten a cubic Bézier from `from` (not included) to `to`
+ */
+function cubicTo(from: Point, c1: Point, c2: Point, to: Point, segments: number = CURVE_SEGMENTS): Point[] {
+  const points: Point[] = [];
+  for (let i = 1; i <= segments; i++) {
+    const t = i / segments;
+    const u = 1 - t;
+    points.push({
+      x: u * u * u * from.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * to.x,
+      y: u * u * u * from.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * to.y,
+    });
+  }
+  return points;
+}
+
+function aLineSkirt(): Polygon {
+  const waistLeft = { x: 90, y: 15 };
+  const waistRight = { x: 470, y: 15 };
+  const hemRight = { x: 560, y: 620 };
+  const hemLeft = { x: 0, y: 620 };
+  return [
+    waistLeft,
+    ...quadraticTo(waistLeft, { x: 280, y: -15 }, waistRight),
+    ...quadraticTo(waistRight, { x: 540, y: 200 }, hemRight),
+    ...quadraticTo(hemRight, { x: 280, y: 660 }, hemLeft),
+    ...quadraticTo(hemLeft, { x: 20, y: 200 }, waistLeft).slice(0, -1),
+  ];
+}
+
+function bodiceFront(): Polygon {
+  const centreNeck = { x: 0, y: 90 };
+  const shoulderNeck = { x: 80, y: 0 };
+  const shoulderTip = { x: 200, y: 30 };
+  const underarm = { x: 245, y: 200 };
+  return [
+    centreNeck,
+    ...quadraticTo(centreNeck, { x: 70, y: 90 }, shoulderNeck),
+    shoulderTip,
+    ...quadraticTo(shoulderTip, { x: 175, y: 160 }, underarm),
+    { x: 230, y: 420 },
+    { x: 0, y: 420 },
+  ];
+}
+
+function sleeve(): Polygon {
+  const leftUnderarm = { x: 0, y: 180 };
+  const capTop = { x: 190, y: 0 };
+  const rightUnderarm = { x: 380, y: 180 };
+  return [
+    leftUnderarm,
+    ...quadraticTo(leftUnderarm, { x: 60, y: 20 }, capTop),
+    ...quadraticTo(capTop, { x: 320, y: 20 }, rightUnderarm),
+    { x: 320, y: 600 },
+    { x: 60, y: 600 },
+  ];
+}
+
+export const GARMENT_BLOCKS: Record<GarmentBlockName, { label: string; outline: () => Polygon }> = {
+  'a-line-skirt': { label: 'A-line Skirt Panel', outline: aLineSkirt },
+  'bodice-front': { label: 'Bodice Front', outline: bodiceFront },
+  'sleeve': { label: 'Sleeve', outline: sleeve },
+};
+
+/**
+ * mm per unit for the lengths SVG allows on width/height
+ */
+const SVG_UNITS: Record<string, number> = {
+  mm: 1,
+  cm: 10,
+  in: 25.4,
+  pt: 25.4 / 72,
+  pc: 25.4 / 6,
+  px: 25.4 / 96,
+};
+
+/**
+ * Read an attribute from every tag matching `tag` in an SVG document, in document order
+ */
+function readAttributes(svg: string, tag: string, attribute: string): string[] {
+  const elements = svg.match(new RegExp(`<${tag}\\b[^>]*>`, 'gi')) ?? [];
+  return elements.flatMap(element => {
+    const value = element.match(new RegExp(`\\s${attribute}\\s*=\\s*["']([^"']*)["']`, 'i'));
+    return value ? [value[1]] : [];
+  });
+}
+
+/**
+ * Read an attribute from the first tag matching `tag` in an SVG document
+ */
+function readAttribute(svg: string, tag: string, attribute: string): string | null {
+  const element = svg.match(new RegExp(`<${tag}\\b[^>]*>`, 'i'));
+  if (!element) return null;
+  const value = element[0].match(new RegExp(`\\s${attribute}\\s*=\\s*["']([^"']*)["']`, 'i'));
+  return value ? value[1] : null;
+}
+
+/**
+ * Scale from SVG user units to mm, from the root width and viewBox.
+ * Without physical units on the root element, user units are taken as mm.
+ */
+function svgUnitScale(svg: string): number {
+  const width = readAttribute(svg, 'svg', 'width');
+  const viewBox = readAttribute(svg, 'svg', 'viewBox');
+  if (!width || !viewBox) return 1;
+
+  const match = width.trim().match(/^([\d.]+)\s*(mm|cm|in|pt|pc|px)?$/i);
+  const viewBoxWidth = parseFloat(viewBox.trim().split(/[\s,]+/)[2]);
+  if (!match || !match[2] || !(viewBoxWidth > 0)) return 1;
+
+  return (parseFloat(match[1]) * SVG_UNITS[match[2].toLowerCase()]) / viewBoxWidth;
+}
+
+/**
+ * Flatten SVG path data into one polygon per subpath.
+ * Supports M/L/H/V/C/S/Q/T/Z in absolute and relative form; arcs become straight lines.
+ */
+export function parseSVGSubpaths(d: string): Polygon[] {
+  const tokens = d.match(/[a-zA-Z]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/g) || [];
+  const subpaths: Polygon[] = [];
+  let points: Point[] = [];
+  let current: Point = { x: 0, y: 0 };
+  let subpathStart: Point = current;
+  let lastControl: Point | null = null;
+  let command = '';
+  let i = 0;
+
+  const number = () => parseFloat(tokens[i++]);
+
+  while (i < tokens.length) {
+    if (/^[a-zA-Z]$/.test(tokens[i])) {
+      command = tokens[i++];
+    }
+    const relative = command === command.toLowerCase();
+    const base = relative ? current : { x: 0, y: 0 };
+    const point = (x: number, y: number): Point => ({ x: base.x + x, y: base.y + y });
+
+    // Drawing on after a closepath starts a new subpath where the last one began
+    if (points.length === 0 && !/^[mz]$/i.test(command)) points.push(current);
+
+    switch (command.toUpperCase()) {
+      case 'M': {
+        // A moveto ends the open subpath, if any, and starts another
+        if (points.length > 0) subpaths.push(points);
+        current = point(number(), number());
+        subpathStart = current;
+        points = [current];
+        command = relative ? 'l' : 'L'; // extra coordinate pairs are implicit linetos
+        lastControl = null;
+        break;
+      }
+      case 'L':
+        current = point(number(), number());
+        points.push(current);
+        lastControl = null;
+        break;
+      case 'H':
+        current = { x: relative ? current.x + number() : number(), y: current.y };
+        points.push(current);
+        lastControl = null;
+        break;
+      case 'V':
+        current = { x: current.x, y: relative ? current.y + number() : number() };
+        points.push(current);
+        lastControl = null;
+        break;
+      case 'C': {
+        const c1 = point(number(), number());
+        const c2 = point(number(), number());
+        const end = point(number(), number());
+        points.push(...cubicTo(current, c1, c2, end));
+        lastControl = c2;
+        current = end;
+        break;
+      }
+      case 'S': {
+        const c1: Point = lastControl ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y } : current;
+        const c2 = point(number(), number());
+        const end = point(number(), number());
+        points.push(...cubicTo(current, c1, c2, end));
+        lastControl = c2;
+        current = end;
+        break;
+      }
+      case 'Q': {
+        const control = point(number(), number());
+        const end = point(number(), number());
+        points.push(...quadraticTo(current, control, end));
+        lastControl = control;
+        current = end;
+        break;
+      }
+      case 'T': {
+        const control: Point = lastControl ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y } : current;
+        const end = point(number(), number());
+        points.push(...quadraticTo(current, control, end));
+        lastControl = control;
+        current = end;
+        break;
+      }
+      case 'A': {
+        // rx ry rotation large-arc sweep x y: approximated by its chord
+        for (let skip = 0; skip < 5; skip++) number();
+        current = point(number(), number());
+        points.push(current);
+        lastControl = null;
+        break;
+      }
+      case 'Z':
+        if (points.length > 0) subpaths.push(points);
+        current = subpathStart;
+        points = [];
+        lastControl = null;
+        break;
+      default:
+        throw new Error(`Unsupported path command: ${command}`);
+    }
+  }
+
+  if (points.length > 0) subpaths.push(points);
+  return subpaths;
+}
+
+/**
+ * Flatten SVG path data into a polygon (first subpath only)
+ */
+export function parseSVGPathData(d: string): Polygon {
+  return parseSVGSubpaths(d)[0] ?? [];
+}
+
+/**
+ * Drop a closing point that repeats the first
+ */
+function dropClosingPoint(outline: Polygon): Polygon {
+  const first = outline[0];
+  const last = outline[outline.length - 1];
+  if (outline.length > 1 && Math.abs(first.x - last.x) < 1e-6 && Math.abs(first.y - last.y) < 1e-6) {
+    return outline.slice(0, -1);
+  }
+  return outline;
+}
+
+/**
+ * Every closed shape in an SVG file, in mm and in document order: each subpath
+ * of every <path>, then every <polygon> and <polyline>. Shapes with fewer than
+ * three points are skipped.
+ */
+export function parseSVGShapes(svg: string): Polygon[] {
+  const pointLists = [...readAttributes(svg, 'polygon', 'points'), ...readAttributes(svg, 'polyline', 'points')];
+  const shapes = [
+    ...readAttributes(svg, 'path', 'd').flatMap(parseSVGSubpaths),
+    ...pointLists.map(points => {
+      const values = points.trim().split(/[\s,]+/).map(parseFloat);
+      const outline: Polygon = [];
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        outline.push({ x: values[i], y: values[i + 1] });
+      }
+      return outline;
+    }),
+  ];
+
+  const scale = svgUnitScale(svg);
+  return shapes
+    .map(dropClosingPoint)
+    .filter(outline => outline.length >= 3 && outline.every(p => isFinite(p.x) && isFinite(p.y)))
+    .map(outline => outline.map(p => ({ x: p.x * scale, y: p.y * scale })));
+}
+
+/**
+ * Extract a garment outline from an SVG file: the first <path>, <polygon> or
+ * <polyline>, converted to mm. Throws if the file has no usable outline.
+ */
+export function parseSVGOutline(svg: string): Polygon {
+  const [outline] = parseSVGShapes(svg);
+  if (!outline) {
+    throw new Error('No closed outline found. The SVG needs a <path>, <polygon> or <polyline> element.');
+  }
+  return normalizeOutline(outline);
+}
+
+/**
+ * Move an outline so its bounding box starts at (0, 0)
+ */
+export function normalizeOutline(outline: Polygon): Polygon {
+  const bounds = calculateBounds([outline]);
+  return transformPolygon(outline, -bounds.minX, -bounds.minY, 0);
+}
+
+/**
+ * Cut pieces along a garment outline. Pieces fully inside are kept as they are,
+ * pieces outside are dropped, and boundary pieces are replaced by their clipped
+ * shape (several pieces if a concave outline splits one).
+ */
+export function clipPiecesToOutline(pieces: TessellationPiece[], outline: Polygon): TessellationPiece[] {
+  const clipped: TessellationPiece[] = [];
+
+  for (const piece of pieces) {
+    const parts = intersectPolygons(piece.polygon, [outline]);
+    if (parts.length === 0) continue;
+
+    // Untouched by the outline: keep the original vertices
+    const area = calculatePolygonArea(piece.polygon);
+    if (parts.length === 1 && Math.abs(calculatePolygonArea(parts[0]) - area) < area * 1e-6) {
+      clipped.push(piece);
+      continue;
+    }
+
+    parts.forEach((polygon, index) => {
+      clipped.push({
+        ...piece,
+        id: parts.length > 1 ? `${piece.id}-${index + 1}` : piece.id,
+        polygon,
+        isTriangle: polygon.length === 3,
+      });
+    });
+  }
+
+  return clipped;
+}
+
+/**
+ * Read a file picked in the browser as text
+ */
+export function readTextFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = (e) => {
+      resolve(e.target?.result as string);
+    };
+
+    reader.onerror = () => {
+      reject(new Error('Failed to read file'));
+    };
+
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * Upload helper for browser: read an SVG file and extract its outline
+ */
+export async function uploadOutline(file: File): Promise<Polygon> {
+  return parseSVGOutline(await readTextFile(file));
+}
@@ -1,4 +1,7 @@
-import { Polygon, Point } from './types';
+import { JoinType } from 'clipper2-js';
+import { Polygon, Point, SeamJoin } from './types';
+import { RandomFn } from './random';
+import { inflatePolygons, unionPolygons, ARC_TOLERANCE } from './clipper';
 
 /**
  * Create a rectangle polygon
@@ -22,11 +25,13 @@ export function createSquare(x: number, y: number, size: number): Polygon {
 /**
  * Split a rectangle into two polygons with a variable-angle cut
  * @param angleVariation 0-1, how much the split deviates from 45° (0 = diagonal, 1 = max deviation)
+ * @param random - random source, pass a seeded PRNG for reproducible splits
  * Creates two quadrilaterals when angleVariation > 0
  */
 export function splitRectangle(
   rect: Polygon,
-  angleVariation: number = 0
+  angleVariation: number = 0,
+  random: RandomFn = Math.random
 ): [Polygon, Polygon] {
   const [tl, tr, br, bl] = rect;
 
@@ -35,7 +40,7 @@ export function splitRectangle(
 
   // If no variation, do a simple diagonal split
   if (angleVariation === 0) {
-    const diagonal = Math.random() < 0.5 ? 'tl-br' : 'tr-bl';
+    const diagonal = random() < 0.5 ? 'tl-br' : 'tr-bl';
     if (diagonal === 'tl-br') {
       return [
         [tl, tr, br], // top triangle
@@ -54,14 +59,14 @@ export function splitRectangle(
   const maxDeviation = angleVariation * 0.8; // Scale to reasonable range
 
   // Top edge: pick a point between 20% and 80% of width (with variation)
-  const topT = 0.5 + (Math.random() - 0.5) * maxDeviation;
+  const topT = 0.5 + (random() - 0.5) * maxDeviation;
   const topPoint = {
     x: tl.x + width * Math.max(0.1, Math.min(0.9, topT)),
     y: tl.y
   };
 
   // Bottom edge: pick a point with some correlation to top (for more interesting cuts)
-  const bottomT = 0.5 + (Math.random() - 0.5) * maxDeviation;
+  const bottomT = 0.5 + (random() - 0.5) * maxDeviation;
   const bottomPoint = {
     x: bl.x + width * Math.max(0.1, Math.min(0.9, bottomT)),
     y: bl.y
@@ -74,6 +79,119 @@ export function splitRectangle(
   return [leftPoly, rightPoly];
 }
 
+/**
+ * Split any convex polygon into two pieces with a straight cut
+ * Triangles are cut from a vertex to the opposite edge; other polygons are cut
+ * corner to opposite corner, or edge to opposite edge when angleVariation > 0
+ * @param angleVariation 0-1, how far the cut moves away from the corners
+ * @param random - random source, pass a seeded PRNG for reproducible splits
+ */
+export function splitPolygon(
+  polygon: Polygon,
+  angleVariation: number = 0,
+  random: RandomFn = Math.random
+): [Polygon, Polygon] {
+  const n = polygon.length;
+  const at = (i: number) => polygon[i % n];
+  const lerp = (a: Point, b: Point, t: number): Point => ({
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+  });
+
+  const start = Math.floor(random() * n);
+
+  if (n === 3) {
+    const t = Math.max(0.1, Math.min(0.9, 0.5 + (random() - 0.5) * angleVariation * 0.8));
+    const cutPoint = lerp(at(start + 1), at(start + 2), t);
+    return [
+      [at(start), at(start + 1), cutPoint],
+      [at(start), cutPoint, at(start + 2)],
+    ];
+  }
+
+  const end = start + Math.floor(n / 2);
+
+  // No variation: corner to corner
+  if (angleVariation === 0) {
+    const first: Polygon = [];
+    for (let i = start; i <= end; i++) first.push(at(i));
+    const second: Polygon = [];
+    for (let i = end; i <= start + n; i++) second.push(at(i));
+    return [first, second];
+  }
+
+  // With variation, slide both ends of the cut along the following edges
+  const startCut = lerp(at(start), at(start + 1), 0.05 + random() * angleVariation * 0.4);
+  const endCut = lerp(at(end), at(end + 1), 0.05 + random() * angleVariation * 0.4);
+
+  const first: Polygon = [startCut];
+  for (let i = start + 1; i <= end; i++) first.push(at(i));
+  first.push(endCut);
+
+  const second: Polygon = [endCut];
+  for (let i = end + 1; i <= start + n; i++) second.push(at(i));
+  second.push(startCut);
+
+  return [first, second];
+}
+
+/**
+ * Cut a polygon in two along the line through a and b. Only the stretch of the
+ * line inside the polygon that contains the midpoint of a and b is cut, so a
+ * concave polygon is cut where the line was drawn. Returns null if that
+ * midpoint is outside the polygon.
+ */
+export function cutPolygon(polygon: Polygon, a: Point, b: Point): [Polygon, Polygon] | null {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  if (length < 1e-9) return null;
+  const ux = (b.x - a.x) / length;
+  const uy = (b.y - a.y) / length;
+  const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+
+  // Where the line crosses each edge, as a distance s from the midpoint along the line
+  const crossings: { s: number; edge: number; point: Point }[] = [];
+  for (let i = 0; i < polygon.length; i++) {
+    const p = polygon[i];
+    const q = polygon[(i + 1) % polygon.length];
+    const ex = q.x - p.x;
+    const ey = q.y - p.y;
+    const denominator = ux * ey - uy * ex;
+    if (Math.abs(denominator) < 1e-12) continue;
+
+    const s = ((p.x - mid.x) * ey - (p.y - mid.y) * ex) / denominator;
+    const r = ((p.x - mid.x) * uy - (p.y - mid.y) * ux) / denominator;
+    if (r >= 0 && r < 1) crossings.push({ s, edge: i, point: { x: p.x + ex * r, y: p.y + ey * r } });
+  }
+
+  // An odd number of crossings ahead means the midpoint is inside
+  const ahead = crossings.filter(crossing => crossing.s > 0).sort((c1, c2) => c1.s - c2.s);
+  const behind = crossings.filter(crossing => crossing.s < 0).sort((c1, c2) => c2.s - c1.s);
+  if (ahead.length % 2 === 0 || behind.length === 0) return null;
+  const entry = behind[0];
+  const exit = ahead[0];
+  if (entry.edge === exit.edge) return null;
+
+  const n = polygon.length;
+  const walk = (from: { edge: number; point: Point }, to: { edge: number; point: Point }): Polygon => {
+    const part: Polygon = [from.point];
+    for (let i = (from.edge + 1) % n; ; i = (i + 1) % n) {
+      part.push(polygon[i]);
+      if (i === to.edge) break;
+    }
+    part.push(to.point);
+    // A cut through a corner repeats that corner
+    return part.filter((point, i) => {
+      const next = part[(i + 1) % part.length];
+      return Math.hypot(point.x - next.x, point.y - next.y) > 1e-6;
+    });
+  };
+
+  const first = walk(entry, exit);
+  const second = walk(exit, entry);
+  if (first.length < 3 || second.length < 3) return null;
+  return [first, second];
+}
+
 /**
  * Legacy function name for backwards compatibility
  */
@@ -84,116 +202,191 @@ export function splitSquareIntoTriangles(
   return splitRectangle(square, 0);
 }
 
+export interface OffsetOptions {
+  join?: SeamJoin; // default 'miter'
+  miterLimit?: number; // multiple of the offset (default DEFAULT_MITER_LIMIT)
+}
+
 /**
- * Simple polygon offset for seam allowances
- * Moves each edge perpendicular outward by offset distance
- * Finds intersection points of adjacent offset edges
+ * Longest miter allowed by default, as a multiple of the offset
  */
-export function offsetPolygon(polygon: Polygon, offset: number): Polygon {
+export const DEFAULT_MITER_LIMIT = 4;
+
+const JOIN_TYPES: Record<SeamJoin, JoinType> = {
+  miter: JoinType.Miter,
+  square: JoinType.Square,
+  round: JoinType.Round,
+};
+
+/**
+ * Polygon offset for seam allowances, using clipper2
+ * Positive offsets grow the polygon, negative offsets shrink it.
+ * Returns the largest resulting polygon: the original polygon if a positive offset
+ * of a degenerate polygon produces nothing, or an empty polygon if a negative
+ * offset swallows it.
+ */
+export function offsetPolygon(polygon: Polygon, offset: number, options: OffsetOptions = {}): Polygon {
   if (offset === 0) return polygon;
 
-  const n = polygon.length;
-  const result: Point[] = [];
+  const { join = 'miter', miterLimit = DEFAULT_MITER_LIMIT } = options;
+  const results = inflatePolygons([polygon], offset, JOIN_TYPES[join], miterLimit);
 
-  // Determine if polygon is clockwise or counterclockwise
-  // This affects which direction is "outward"
-  let area = 0;
-  for (let i = 0; i < n; i++) {
-    const j = (i + 1) % n;
-    area += polygon[i].x * polygon[j].y;
-    area -= polygon[j].x * polygon[i].y;
+  if (results.length === 0) {
+    return offset > 0 ? polygon : [];
+  }
+
+  return results.reduce((largest, candidate) =>
+    calculatePolygonArea(candidate) > calculatePolygonArea(largest) ? candidate : largest
+  );
+}
+
+/**
+ * Grow a polygon by a different distance on each edge (offsets[i] is the edge
+ * from vertex i to vertex i + 1). Built as the union of the polygon, a strip
+ * along each edge and a join at each convex corner. Corners between edges with
+ * different offsets are always mitered, since no single round or square corner fits both.
+ */
+export function offsetPolygonEdges(polygon: Polygon, offsets: number[], options: OffsetOptions = {}): Polygon {
+  const n = polygon.length;
+  if (offsets.every(offset => offset === offsets[0])) {
+    return offsetPolygon(polygon, offsets[0], options);
   }
-  const isClockwise = area < 0;
 
-  // For each vertex, calculate where the two adjacent offset edges intersect
+  const { join = 'miter', miterLimit = DEFAULT_MITER_LIMIT } = options;
+  const orientation = signedArea(polygon) > 0 ? 1 : -1;
+  const at = (i: number) => polygon[(i + n) % n];
+  const along = (p: Point, v: Point, d: number): Point => ({ x: p.x + v.x * d, y: p.y + v.y * d });
+
+  // Unit direction and outward normal of each edge
+  const directions: Point[] = [];
+  const normals: Point[] = [];
   for (let i = 0; i < n; i++) {
-    const curr = polygon[i];
-    const next = polygon[(i + 1) % n];
-    const prev = polygon[(i - 1 + n) % n];
+    const dx = at(i + 1).x - at(i).x;
+    const dy = at(i + 1).y - at(i).y;
+    const length = Math.hypot(dx, dy) || 1;
+    directions.push({ x: dx / length, y: dy / length });
+    normals.push({ x: (orientation * dy) / length, y: (-orientation * dx) / length });
+  }
 
-    // Get the two edges adjacent to this vertex
-    const edge1 = { x: curr.x - prev.x, y: curr.y - prev.y };
-    const edge2 = { x: next.x - curr.x, y: next.y - curr.y };
+  const parts: Polygon[] = [polygon];
 
-    // Normalize the edges
-    const len1 = Math.sqrt(edge1.x * edge1.x + edge1.y * edge1.y);
-    const len2 = Math.sqrt(edge2.x * edge2.x + edge2.y * edge2.y);
+  for (let i = 0; i < n; i++) {
+    if (offsets[i] > 0) {
+      parts.push([at(i), at(i + 1), along(at(i + 1), normals[i], offsets[i]), along(at(i), normals[i], offsets[i])]);
+    }
+  }
 
-    if (len1 < 0.0001 || len2 < 0.0001) {
-      // Degenerate edge, skip
+  for (let j = 0; j < n; j++) {
+    const k = (j + n - 1) % n; // edge arriving at vertex j
+    const vertex = at(j);
+    const dIn = offsets[k];
+    const dOut = offsets[j];
+    const cross = directions[k].x * directions[j].y - directions[k].y * directions[j].x;
+    if (cross * orientation <= 0 || Math.max(dIn, dOut) <= 0) continue; // concave or straight: the strips overlap
+
+    const from = along(vertex, normals[k], dIn);
+    const to = along(vertex, normals[j], dOut);
+
+    if (dIn === dOut && join === 'round') {
+      const start = Math.atan2(normals[k].y, normals[k].x);
+      let sweep = Math.atan2(normals[j].y, normals[j].x) - start;
+      if (sweep * orientation < 0) sweep += orientation * 2 * Math.PI;
+      const steps = Math.max(1, Math.ceil(Math.abs(sweep) / (2 * Math.acos(Math.max(-1, 1 - ARC_TOLERANCE / dIn)))));
+      const arc: Polygon = [vertex];
+      for (let s = 0; s <= steps; s++) {
+        const angle = start + (sweep * s) / steps;
+        arc.push({ x: vertex.x + Math.cos(angle) * dIn, y: vertex.y + Math.sin(angle) * dIn });
+      }
+      parts.push(arc);
       continue;
     }
 
-    edge1.x /= len1;
-    edge1.y /= len1;
-    edge2.x /= len2;
-    edge2.y /= len2;
-
-    // Get perpendiculars pointing OUTWARD (away from polygon interior)
-    // For clockwise polygons: outward is counterclockwise perpendicular (-y, x)
-    // For counterclockwise polygons: outward is clockwise perpendicular (y, -x)
-    let perp1, perp2;
-    if (isClockwise) {
-      perp1 = { x: -edge1.y, y: edge1.x };
-      perp2 = { x: -edge2.y, y: edge2.x };
-    } else {
-      perp1 = { x: edge1.y, y: -edge1.x };
-      perp2 = { x: edge2.y, y: -edge2.x };
-    }
+    // Where the two offset edges meet: from + directions[k] * t
+    const t = ((to.x - from.x) * directions[j].y - (to.y - from.y) * directions[j].x) / cross;
+    const miter = along(from, directions[k], t);
+    const miterLength = Math.hypot(miter.x - vertex.x, miter.y - vertex.y);
+    const limit = Math.max(dIn, dOut) * (dIn === dOut && join === 'square' ? 1 : miterLimit);
 
-    // Move the edges outward by offset amount
-    // Edge 1 goes from (prev + perp1*offset) to (curr + perp1*offset)
-    // Edge 2 goes from (curr + perp2*offset) to (next + perp2*offset)
-
-    // Points on the offset edges
-    const p1 = { x: prev.x + perp1.x * offset, y: prev.y + perp1.y * offset };
-    const p2 = { x: curr.x + perp1.x * offset, y: curr.y + perp1.y * offset };
-    const p3 = { x: curr.x + perp2.x * offset, y: curr.y + perp2.y * offset };
-    const p4 = { x: next.x + perp2.x * offset, y: next.y + perp2.y * offset };
-
-    // Find intersection of the two offset edges
-    // Line 1: p1 + t * (p2 - p1)
-    // Line 2: p3 + s * (p4 - p3)
-    const d1 = { x: p2.x - p1.x, y: p2.y - p1.y };
-    const d2 = { x: p4.x - p3.x, y: p4.y - p3.y };
-
-    // Solve for intersection
-    const denom = d1.x * d2.y - d1.y * d2.x;
-
-    if (Math.abs(denom) > 0.0001) {
-      // Lines intersect
-      const t = ((p3.x - p1.x) * d2.y - (p3.y - p1.y) * d2.x) / denom;
-
-      // Limit how far the intersection can be from the original vertex
-      // This prevents extreme spikes at acute angles
-      const maxDistance = offset * 10; // Allow miter up to 10x offset
-      const intersection = {
-        x: p1.x + t * d1.x,
-        y: p1.y + t * d1.y
-      };
-
-      const distFromCurr = Math.sqrt(
-        (intersection.x - curr.x) ** 2 +
-        (intersection.y - curr.y) ** 2
-      );
-
-      if (distFromCurr <= maxDistance) {
-        result.push(intersection);
-      } else {
-        // Clip the miter - use a bevel instead
-        result.push(p2);
-        result.push(p3);
-      }
+    if (miterLength <= limit) {
+      parts.push([vertex, from, miter, to]);
     } else {
-      // Lines are parallel (shouldn't happen often), use average
-      result.push({
-        x: (p2.x + p3.x) / 2,
-        y: (p2.y + p3.y) / 2
-      });
+      // Square the point off where it crosses the limit, perpendicular to the bisector
+      const bisector = { x: (miter.x - vertex.x) / miterLength, y: (miter.y - vertex.y) / miterLength };
+      const cutIn = (limit - dot(normals[k], bisector) * dIn) / dot(directions[k], bisector);
+      const cutOut = (limit - dot(normals[j], bisector) * dOut) / -dot(directions[j], bisector);
+      parts.push([vertex, from, along(from, directions[k], cutIn), along(to, directions[j], -cutOut), to]);
     }
   }
 
-  return result;
+  return unionPolygons(parts).reduce((largest, candidate) =>
+    calculatePolygonArea(candidate) > calculatePolygonArea(largest) ? candidate : largest
+  );
+}
+
+/**
+ * Outward unit normal of the edge from vertex i to vertex i + 1
+ */
+export function edgeNormal(polygon: Polygon, i: number): Point {
+  const a = polygon[i];
+  const b = polygon[(i + 1) % polygon.length];
+  const orientation = signedArea(polygon) > 0 ? 1 : -1;
+  const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+  return { x: (orientation * (b.y - a.y)) / length, y: (-orientation * (b.x - a.x)) / length };
+}
+
+/**
+ * Distance along a ray from origin in (unit) direction to where it first
+ * crosses the polygon outline, or null if it never does
+ */
+export function castRay(polygon: Polygon, origin: Point, direction: Point): number | null {
+  let nearest = Infinity;
+
+  for (let i = 0; i < polygon.length; i++) {
+    const p = polygon[i];
+    const q = polygon[(i + 1) % polygon.length];
+    const ex = q.x - p.x;
+    const ey = q.y - p.y;
+    const denominator = direction.x * ey - direction.y * ex;
+    if (Math.abs(denominator) < 1e-9) continue;
+
+    // origin + direction * s = p + (q - p) * r
+    const s = ((p.x - origin.x) * ey - (p.y - origin.y) * ex) / denominator;
+    const r = ((p.x - origin.x) * direction.y - (p.y - origin.y) * direction.x) / denominator;
+    if (s > 1e-6 && r >= 0 && r <= 1) nearest = Math.min(nearest, s);
+  }
+
+  return isFinite(nearest) ? nearest : null;
+}
+
+function dot(a: Point, b: Point): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+/**
+ * Shoelace area keeping its sign, which gives the winding direction
+ */
+export function signedArea(polygon: Polygon): number {
+  let area = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const j = (i + 1) % polygon.length;
+    area += polygon[i].x * polygon[j].y - polygon[j].x * polygon[i].y;
+  }
+  return area / 2;
+}
+
+/**
+ * Even-odd ray test for whether a point lies inside a polygon
+ */
+export function pointInPolygon(point: Point, polygon: Polygon): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
 }
 
 /**
@@ -213,3 +406,70 @@ export function calculateBounds(polygons: Polygon[]): { minX: number; minY: numb
 
   return { minX, minY, maxX, maxY };
 }
+
+/**
+ * Rotate a polygon about the origin (degrees) and then translate it,
+ * matching the placement transforms produced by the nester
+ */
+export function transformPolygon(polygon: Polygon, x: number, y: number, rotation: number): Polygon {
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+
+  return polygon.map(point => ({
+    x: x + point.x * cos - point.y * sin,
+    y: y + point.x * sin + point.y * cos,
+  }));
+}
+
+/**
+ * Calculate area of a polygon using shoelace formula
+ */
+export function calculatePolygonArea(polygon: Polygon): number {
+  let area = 0;
+  const n = polygon.length;
+
+  for (let i = 0; i < n; i++) {
+    const j = (i + 1) % n;
+    area += polygon[i].x * polygon[j].y;
+    area -= polygon[j].x * polygon[i].y;
+  }
+
+  return Math.abs(area / 2);
+}
+
+/**
+ * Length of a polygon's outline, closing edge included
+ */
+export function calculatePolygonPerimeter(polygon: Polygon): number {
+  return polygon.reduce((sum, point, i) => {
+    const next = polygon[(i + 1) % polygon.length];
+    return sum + Math.hypot(next.x - point.x, next.y - point.y);
+  }, 0);
+}
+
+/**
+ * Calculate centroid of a polygon
+ */
+export function calculatePolygonCentroid(polygon: Polygon): { x: number; y: number } {
+  let cx = 0;
+  let cy = 0;
+  let area = 0;
+  const n = polygon.length;
+
+  for (let i = 0; i < n; i++) {
+    const j = (i + 1) % n;
+    const cross = polygon[i].x * polygon[j].y - polygon[j].x * polygon[i].y;
+    cx += (polygon[i].x + polygon[j].x) * cross;
+    cy += (polygon[i].y + polygon[j].y) * cross;
+    area += cross;
+  }
+
+  area *= 0.5;
+  const factor = 1 / (6 * area);
+
+  return {
+    x: cx * factor,
+    y: cy * factor
+  };
+}
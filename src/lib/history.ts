@@ -0,0 +1,138 @@
+import { TessellationConfig } from './types';
+
+/**
+ * One recorded step: the state after a change and what the change was
+ */
+export interface HistoryEntry<T> {
+  label: string; // shown in the history list, e.g. "Rows"
+  mergeKey?: string; // what a continuous edit changes, e.g. the slider; discrete actions have none
+  state: T;
+  timestamp: number; // ms since epoch
+}
+
+/**
+ * Linear undo history. `present` is the current state; undo moves it into
+ * `future`, and any new change clears `future`.
+ */
+export interface History<T> {
+  past: HistoryEntry<T>[];
+  present: HistoryEntry<T>;
+  future: HistoryEntry<T>[];
+}
+
+/**
+ * Oldest entries are dropped beyond this many undo steps
+ */
+export const MAX_HISTORY = 100;
+
+/**
+ * Changes with the same merge key closer together than this (ms) are merged
+ * into one step, so dragging a slider is undone in one go
+ */
+export const COALESCE_WINDOW = 1000;
+
+export function createHistory<T>(state: T, label: string = 'Start'): History<T> {
+  return { past: [], present: { label, state, timestamp: Date.now() }, future: [] };
+}
+
+/**
+ * Shallow comparison of two snapshots: fields are compared by reference,
+ * which is how React state changes show up
+ */
+function sameState<T extends object>(a: T, b: T): boolean {
+  return (Object.keys(a) as (keyof T)[]).every(key => a[key] === b[key]);
+}
+
+/**
+ * Record a change. Unchanged states are ignored, and a change with the same
+ * merge key as the present one within COALESCE_WINDOW replaces it. Changes
+ * without a merge key (locking a piece, a click) are always their own step.
+ */
+export function pushHistory<T extends object>(history: History<T>, label: string, state: T, mergeKey?: string): History<T> {
+  if (sameState(history.present.state, state)) return history;
+
+  const timestamp = Date.now();
+  const entry = { label, mergeKey, state, timestamp };
+
+  if (history.future.length === 0 && history.past.length > 0 && mergeKey !== undefined &&
+      history.present.mergeKey === mergeKey && timestamp - history.present.timestamp < COALESCE_WINDOW) {
+    return { ...history, present: entry };
+  }
+
+  return {
+    past: [...history.past, history.present].slice(-MAX_HISTORY),
+    present: entry,
+    future: [],
+  };
+}
+
+export function undoHistory<T>(history: History<T>): History<T> {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redoHistory<T>(history: History<T>): History<T> {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
+
+/**
+ * All entries oldest first; the present one is at index `past.length`
+ */
+export function historyEntries<T>(history: History<T>): HistoryEntry<T>[] {
+  return [...history.past, history.present, ...history.future];
+}
+
+/**
+ * Move to any entry in the list returned by historyEntries
+ */
+export function jumpToHistory<T>(history: History<T>, index: number): History<T> {
+  const entries = historyEntries(history);
+  if (index < 0 || index >= entries.length) return history;
+  return {
+    past: entries.slice(0, index),
+    present: entries[index],
+    future: entries.slice(index + 1),
+  };
+}
+
+const CONFIG_LABELS: Record<keyof TessellationConfig, string> = {
+  tiling: 'Tiling',
+  rows: 'Rows',
+  cols: 'Columns',
+  squareSize: 'Square size',
+  colors: 'Number of colors',
+  splitProbability: 'Split probability',
+  seamAllowance: 'Seam allowance',
+  boundaryAllowance: 'Outer edge allowance',
+  seamJoin: 'Corner style',
+  seamMiterLimit: 'Miter limit',
+  offsetAmount: 'Row offset',
+  widthVariation: 'Width variation',
+  heightVariation: 'Height variation',
+  splitAngleVariation: 'Split angle variation',
+  sameColorProbability: 'Same color adjacency',
+  colorProbabilities: 'Color probabilities',
+  colorMode: 'Color assignment',
+  colorTolerance: 'Color tolerance',
+  seed: 'Seed',
+  layoutSeed: 'Layout seed',
+  lockedPieces: 'Locked pieces',
+  garmentOutline: 'Garment outline',
+};
+
+/**
+ * History label for an updateConfig call, e.g. "Rows" or "Rows, Columns"
+ */
+export function describeConfigChange(partial: Partial<TessellationConfig>): string {
+  const keys = Object.keys(partial) as (keyof TessellationConfig)[];
+  return keys.length > 0 ? keys.map(key => CONFIG_LABELS[key]).join(', ') : 'Settings';
+}
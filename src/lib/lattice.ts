@@ -0,0 +1,394 @@
+import { TessellationConfig, TilingType, Polygon, Point } from './types';
+import { createRectangle, calculateBounds, transformPolygon } from './geometry';
+import { RandomFn } from './random';
+
+/**
+ * One cell of a lattice, before splitting and color assignment
+ */
+export interface LatticeCell {
+  polygon: Polygon;
+  row: number;
+  gridCol: number; // unique within the row, used for ids and labels
+  isRectangle: boolean; // axis-aligned rectangle, split with splitRectangle
+}
+
+/**
+ * Tiling types with labels and the config settings each one uses
+ * variation: 'size' varies cell widths/heights, 'corners' moves shared corners, null ignores it
+ */
+export const TILINGS: Record<TilingType, { label: string; usesOffset: boolean; variation: 'size' | 'corners' | null }> = {
+  'brick': { label: 'Brick', usesOffset: true, variation: 'size' },
+  'hexagon': { label: 'Hexagon', usesOffset: false, variation: 'corners' },
+  'triangle': { label: 'Equilateral Triangle', usesOffset: false, variation: 'corners' },
+  'tumbling-block': { label: 'Tumbling Block', usesOffset: false, variation: 'corners' },
+  'herringbone': { label: 'Herringbone', usesOffset: false, variation: null },
+  'basketweave': { label: 'Basketweave', usesOffset: false, variation: 'size' },
+};
+
+/**
+ * Largest vertex jitter for lattices with shared corners, as a fraction of squareSize
+ */
+const MAX_JITTER = 0.2;
+
+/**
+ * Strips per basketweave block
+ */
+const BASKETWEAVE_STRIPS = 2;
+
+/**
+ * Distance between neighbouring rows and cells in a row, as multiples of squareSize
+ */
+const LATTICE_PITCH: Record<TilingType, { x: number; y: number }> = {
+  'brick': { x: 1, y: 1 },
+  'hexagon': { x: 1, y: Math.sqrt(3) / 2 },
+  'triangle': { x: 0.5, y: Math.sqrt(3) / 2 },
+  'tumbling-block': { x: Math.sqrt(3), y: 1.5 },
+  'herringbone': { x: 1, y: 1 },
+  'basketweave': { x: 1, y: 1 },
+};
+
+/**
+ * Rows and columns needed for a lattice to cover a width x height area, with a
+ * cell of margin on every side so offsets, ragged edges and variation stay covered
+ */
+export function latticeSizeToCover(
+  tiling: TilingType,
+  squareSize: number,
+  width: number,
+  height: number
+): { rows: number; cols: number } {
+  const pitch = LATTICE_PITCH[tiling] ?? LATTICE_PITCH.brick;
+  return {
+    rows: Math.ceil(height / (pitch.y * squareSize)) + 2,
+    cols: Math.ceil(width / (pitch.x * squareSize)) + 2,
+  };
+}
+
+/**
+ * Generate the cells for the configured tiling, shifted so the lattice starts at (0, 0)
+ * `rows` and `cols` count lattice rows and cells per row; squareSize is the cell size
+ */
+export function generateLattice(config: TessellationConfig, random: RandomFn): LatticeCell[] {
+  let cells: LatticeCell[];
+
+  switch (config.tiling) {
+    case 'hexagon':
+      cells = jitterVertices(hexagonLattice(config), config, random);
+      break;
+    case 'triangle':
+      cells = jitterVertices(triangleLattice(config), config, random);
+      break;
+    case 'tumbling-block':
+      cells = jitterVertices(tumblingBlockLattice(config), config, random);
+      break;
+    case 'herringbone':
+      cells = herringboneLattice(config);
+      break;
+    case 'basketweave':
+      cells = basketweaveLattice(config, random);
+      break;
+    case 'brick':
+    default:
+      cells = brickLattice(config, random);
+  }
+
+  const bounds = calculateBounds(cells.map(cell => cell.polygon));
+  if (bounds.minX === 0 && bounds.minY === 0) return cells;
+
+  return cells.map(cell => ({
+    ...cell,
+    polygon: transformPolygon(cell.polygon, -bounds.minX, -bounds.minY, 0),
+  }));
+}
+
+/**
+ * Offset rows of rectangles with variable widths and row heights
+ */
+function brickLattice(config: TessellationConfig, random: RandomFn): LatticeCell[] {
+  const { rows, cols, squareSize, offsetAmount, widthVariation, heightVariation } = config;
+
+  // Generate variable widths for each row, then variable heights for the rows
+  const widths: number[][] = [];
+  for (let row = 0; row < rows; row++) {
+    widths[row] = generateRowWidths(cols, squareSize, widthVariation, random);
+  }
+  const heights = generateRowHeights(rows, squareSize, heightVariation, random);
+
+  const cells: LatticeCell[] = [];
+  let cumulativeY = 0;
+
+  for (let row = 0; row < rows; row++) {
+    // Brick offset on odd rows
+    const offsetX = (row % 2) * offsetAmount * squareSize;
+    let cumulativeX = 0;
+
+    for (let col = 0; col < cols; col++) {
+      cells.push({
+        polygon: createRectangle(cumulativeX + offsetX, cumulativeY, widths[row][col], heights[row]),
+        row,
+        gridCol: col,
+        isRectangle: true,
+      });
+      cumulativeX += widths[row][col];
+    }
+
+    cumulativeY += heights[row];
+  }
+
+  return cells;
+}
+
+/**
+ * Pointy-top hexagons, squareSize across the flats, odd rows shifted half a cell
+ */
+function hexagonLattice(config: TessellationConfig): LatticeCell[] {
+  const { rows, cols, squareSize } = config;
+  const radius = squareSize / Math.sqrt(3);
+  const cells: LatticeCell[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const center = {
+        x: col * squareSize + (row % 2) * squareSize / 2 + squareSize / 2,
+        y: radius + row * radius * 1.5,
+      };
+      cells.push({
+        polygon: regularPolygon(center, radius, 6, -90),
+        row,
+        gridCol: col,
+        isRectangle: false,
+      });
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Rows of alternating up and down equilateral triangles with squareSize sides
+ */
+function triangleLattice(config: TessellationConfig): LatticeCell[] {
+  const { rows, cols, squareSize } = config;
+  const height = squareSize * Math.sqrt(3) / 2;
+  const cells: LatticeCell[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    const top = row * height;
+    const bottom = top + height;
+
+    for (let col = 0; col < cols; col++) {
+      const left = col * squareSize / 2;
+      const pointsUp = (col + row) % 2 === 0;
+
+      cells.push({
+        polygon: pointsUp
+          ? [{ x: left, y: bottom }, { x: left + squareSize / 2, y: top }, { x: left + squareSize, y: bottom }]
+          : [{ x: left, y: top }, { x: left + squareSize, y: top }, { x: left + squareSize / 2, y: bottom }],
+        row,
+        gridCol: col,
+        isRectangle: false,
+      });
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Hexagons of side squareSize, each made of three rhombi (top, left and right faces of a cube)
+ */
+function tumblingBlockLattice(config: TessellationConfig): LatticeCell[] {
+  const { rows, cols, squareSize } = config;
+  const halfWidth = squareSize * Math.sqrt(3) / 2;
+  const cells: LatticeCell[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const center = {
+        x: halfWidth + col * halfWidth * 2 + (row % 2) * halfWidth,
+        y: squareSize + row * squareSize * 1.5,
+      };
+      const [top, upperRight, lowerRight, bottom, lowerLeft, upperLeft] = regularPolygon(center, squareSize, 6, -90);
+
+      const faces: Polygon[] = [
+        [center, upperLeft, top, upperRight],
+        [center, bottom, lowerLeft, upperLeft],
+        [center, upperRight, lowerRight, bottom],
+      ];
+      faces.forEach((polygon, face) => {
+        cells.push({ polygon, row, gridCol: col * 3 + face, isRectangle: false });
+      });
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Axis-aligned herringbone of squareSize x squareSize/2 planks
+ * Each lattice row is one diagonal staircase of alternating horizontal and vertical planks;
+ * planks are kept when their centre falls inside the rows x cols area
+ */
+function herringboneLattice(config: TessellationConfig): LatticeCell[] {
+  const { rows, cols, squareSize } = config;
+  const unit = squareSize / 2;
+  const areaWidth = cols * squareSize;
+  const areaHeight = rows * squareSize;
+  const cells: LatticeCell[] = [];
+
+  // A staircase covers four diagonals of unit cells, so staircases repeat every 4 units down.
+  // Start far enough up and left that the whole area is covered.
+  const steps = Math.ceil((areaWidth + areaHeight) / unit) + 4;
+  const firstStrip = -Math.ceil(areaWidth / (unit * 4)) - 1;
+  const lastStrip = Math.ceil(areaHeight / (unit * 4)) + 1;
+  let row = 0;
+
+  for (let strip = firstStrip; strip <= lastStrip; strip++) {
+    let gridCol = 0;
+
+    for (let k = -2; k < steps; k++) {
+      const planks = [
+        createRectangle(k * unit, (k + strip * 4) * unit, squareSize, unit), // horizontal
+        createRectangle(k * unit, (k + strip * 4 + 1) * unit, unit, squareSize), // vertical
+      ];
+
+      for (const polygon of planks) {
+        const cx = polygon[0].x + (polygon[1].x - polygon[0].x) / 2;
+        const cy = polygon[0].y + (polygon[3].y - polygon[0].y) / 2;
+        if (cx < 0 || cx > areaWidth || cy < 0 || cy > areaHeight) continue;
+
+        cells.push({ polygon, row, gridCol: gridCol++, isRectangle: true });
+      }
+    }
+
+    if (gridCol > 0) row++;
+  }
+
+  return cells;
+}
+
+/**
+ * Grid of square blocks, each made of parallel strips that alternate
+ * horizontal and vertical in a checkerboard
+ */
+function basketweaveLattice(config: TessellationConfig, random: RandomFn): LatticeCell[] {
+  const { rows, cols, squareSize, widthVariation, heightVariation } = config;
+
+  // Columns share one set of widths so blocks stay aligned in a grid
+  const widths = generateRowWidths(cols, squareSize, widthVariation, random);
+  const heights = generateRowHeights(rows, squareSize, heightVariation, random);
+  const cells: LatticeCell[] = [];
+
+  let y = 0;
+  for (let row = 0; row < rows; row++) {
+    let x = 0;
+    for (let col = 0; col < cols; col++) {
+      const width = widths[col];
+      const height = heights[row];
+      const horizontal = (row + col) % 2 === 0;
+
+      for (let strip = 0; strip < BASKETWEAVE_STRIPS; strip++) {
+        const polygon = horizontal
+          ? createRectangle(x, y + strip * height / BASKETWEAVE_STRIPS, width, height / BASKETWEAVE_STRIPS)
+          : createRectangle(x + strip * width / BASKETWEAVE_STRIPS, y, width / BASKETWEAVE_STRIPS, height);
+        cells.push({ polygon, row, gridCol: col * BASKETWEAVE_STRIPS + strip, isRectangle: true });
+      }
+
+      x += width;
+    }
+    y += heights[row];
+  }
+
+  return cells;
+}
+
+/**
+ * Regular polygon with its first vertex at startAngle (degrees, y down)
+ */
+function regularPolygon(center: Point, radius: number, sides: number, startAngle: number): Polygon {
+  return Array.from({ length: sides }, (_, i) => {
+    const angle = (startAngle + (i * 360) / sides) * Math.PI / 180;
+    return {
+      x: center.x + radius * Math.cos(angle),
+      y: center.y + radius * Math.sin(angle),
+    };
+  });
+}
+
+/**
+ * Move every lattice vertex by a random amount, scaled by width/height variation.
+ * Cells that share a corner see the same move, so the tiling stays gap-free.
+ * Only used for lattices without T-junctions.
+ */
+function jitterVertices(cells: LatticeCell[], config: TessellationConfig, random: RandomFn): LatticeCell[] {
+  const { squareSize, widthVariation, heightVariation } = config;
+  if (widthVariation === 0 && heightVariation === 0) return cells;
+
+  const moves = new Map<string, Point>();
+  const move = (point: Point): Point => {
+    const key = `${point.x.toFixed(3)},${point.y.toFixed(3)}`;
+    let delta = moves.get(key);
+    if (!delta) {
+      delta = {
+        x: (random() * 2 - 1) * widthVariation * MAX_JITTER * squareSize,
+        y: (random() * 2 - 1) * heightVariation * MAX_JITTER * squareSize,
+      };
+      moves.set(key, delta);
+    }
+    return { x: point.x + delta.x, y: point.y + delta.y };
+  };
+
+  return cells.map(cell => ({ ...cell, polygon: cell.polygon.map(move) }));
+}
+
+/**
+ * Generate variable widths for a row
+ * Returns an array of widths that maintains the overall row width
+ */
+function generateRowWidths(cols: number, baseSize: number, variation: number, random: RandomFn): number[] {
+  if (variation === 0) {
+    return new Array(cols).fill(baseSize);
+  }
+
+  const widths: number[] = [];
+  const targetTotal = cols * baseSize;
+
+  // Generate random variations
+  for (let i = 0; i < cols; i++) {
+    // Random factor between (1 - variation) and (1 + variation)
+    const factor = 1 + (random() * 2 - 1) * variation;
+    widths.push(baseSize * factor);
+  }
+
+  // Normalize to maintain target total width
+  const currentTotal = widths.reduce((sum, w) => sum + w, 0);
+  const scale = targetTotal / currentTotal;
+
+  return widths.map(w => w * scale);
+}
+
+/**
+ * Generate variable heights for each row
+ * Returns an array of heights that maintains the overall total height
+ */
+function generateRowHeights(rows: number, baseSize: number, variation: number, random: RandomFn): number[] {
+  if (variation === 0) {
+    return new Array(rows).fill(baseSize);
+  }
+
+  const heights: number[] = [];
+  const targetTotal = rows * baseSize;
+
+  // Generate random variations
+  for (let i = 0; i < rows; i++) {
+    // Random factor between (1 - variation) and (1 + variation)
+    const factor = 1 + (random() * 2 - 1) * variation;
+    heights.push(baseSize * factor);
+  }
+
+  // Normalize to maintain target total height
+  const currentTotal = heights.reduce((sum, h) => sum + h, 0);
+  const scale = targetTotal / currentTotal;
+
+  return heights.map(h => h * scale);
+}
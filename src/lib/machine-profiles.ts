@@ -0,0 +1,145 @@
+/**
+ * Laser operations a packed layout is made of: cut lines, scored guides
+ * (sewing lines and grainlines) and engraved labels
+ */
+export type LaserOperation = 'cut' | 'score' | 'engrave';
+
+export interface OperationSettings {
+  color: string; // stroke color the machine software maps to this operation
+  strokeWidth: number; // in mm
+  power: number; // 0-100 %
+  speed: number; // mm/s
+}
+
+export interface MachineProfile {
+  id: string;
+  name: string;
+  kerf: number; // width of material the beam removes, in mm; cut lines are moved out by half of it
+  builtIn?: boolean; // shipped with the app, can be edited but not deleted
+  operations: Record<LaserOperation, OperationSettings>;
+}
+
+export const LASER_OPERATIONS: { operation: LaserOperation; label: string }[] = [
+  { operation: 'cut', label: 'Cut' },
+  { operation: 'score', label: 'Score' },
+  { operation: 'engrave', label: 'Engrave' },
+];
+
+/**
+ * Matches the plain SVG styling: black cut lines, grey sewing lines, blue labels
+ */
+export const DEFAULT_MACHINE_PROFILE: MachineProfile = {
+  id: 'generic',
+  name: 'Generic (preview colors)',
+  kerf: 0,
+  builtIn: true,
+  operations: {
+    cut: { color: '#000000', strokeWidth: 0.3, power: 60, speed: 20 },
+    score: { color: '#666666', strokeWidth: 0.2, power: 15, speed: 100 },
+    engrave: { color: '#0000FF', strokeWidth: 0.2, power: 20, speed: 150 },
+  },
+};
+
+export const BUILT_IN_PROFILES: MachineProfile[] = [
+  DEFAULT_MACHINE_PROFILE,
+  {
+    id: 'lightburn',
+    name: 'LightBurn (CO2)',
+    kerf: 0.15,
+    builtIn: true,
+    operations: {
+      cut: { color: '#FF0000', strokeWidth: 0.1, power: 55, speed: 25 },
+      score: { color: '#0000FF', strokeWidth: 0.1, power: 12, speed: 120 },
+      engrave: { color: '#000000', strokeWidth: 0.1, power: 18, speed: 200 },
+    },
+  },
+  {
+    id: 'epilog',
+    name: 'Epilog (hairline vectors)',
+    kerf: 0.2,
+    builtIn: true,
+    operations: {
+      cut: { color: '#FF0000', strokeWidth: 0.0254, power: 50, speed: 30 },
+      score: { color: '#0000FF', strokeWidth: 0.0254, power: 10, speed: 100 },
+      engrave: { color: '#00FF00', strokeWidth: 0.0254, power: 15, speed: 150 },
+    },
+  },
+  {
+    id: 'diode',
+    name: 'Diode laser',
+    kerf: 0.1,
+    builtIn: true,
+    operations: {
+      cut: { color: '#FF0000', strokeWidth: 0.1, power: 100, speed: 8 },
+      score: { color: '#0000FF', strokeWidth: 0.1, power: 30, speed: 40 },
+      engrave: { color: '#000000', strokeWidth: 0.1, power: 40, speed: 60 },
+    },
+  },
+];
+
+const PROFILES_STORAGE_KEY = 'machineProfiles';
+
+/**
+ * Profiles saved in the browser, with any built-in profile the saved list is
+ * missing added back
+ */
+export function loadMachineProfiles(): MachineProfile[] {
+  let saved: MachineProfile[] = [];
+
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    if (Array.isArray(parsed)) {
+      saved = parsed.filter((profile): profile is MachineProfile =>
+        typeof profile?.id === 'string' && typeof profile?.name === 'string' &&
+        typeof profile?.kerf === 'number' && LASER_OPERATIONS.every(({ operation }) => typeof profile.operations?.[operation]?.color === 'string')
+      );
+    }
+  } catch {
+    // Unreadable storage: fall back to the built-in profiles
+  }
+
+  const missing = BUILT_IN_PROFILES.filter(builtIn => !saved.some(profile => profile.id === builtIn.id));
+  return [...missing, ...saved];
+}
+
+export function saveMachineProfiles(profiles: MachineProfile[]): void {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+}
+
+/**
+ * Copy of a profile the user can edit and delete
+ */
+export function duplicateMachineProfile(profile: MachineProfile): MachineProfile {
+  return {
+    ...profile,
+    id: `custom-${Date.now().toString(36)}`,
+    name: `${profile.name} (copy)`,
+    builtIn: false,
+    operations: {
+      cut: { ...profile.operations.cut },
+      score: { ...profile.operations.score },
+      engrave: { ...profile.operations.engrave },
+    },
+  };
+}
+
+/**
+ * CSS rule stroking an element class with an operation's color and width
+ */
+export function operationStyle(className: string, settings: OperationSettings, extra: string = ''): string {
+  return `.${className} { fill: none; stroke: ${settings.color}; stroke-width: ${settings.strokeWidth};${extra ? ` ${extra}` : ''} }`;
+}
+
+/**
+ * SVG <metadata> recording the profile's power and speed per operation, for
+ * laser software or operators to read back
+ */
+export function profileMetadata(profile: MachineProfile): string {
+  const json = JSON.stringify({
+    machine: profile.name,
+    kerf: profile.kerf,
+    operations: profile.operations,
+  });
+  return `<metadata id="machine-profile">${json.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</metadata>`;
+}
@@ -0,0 +1,168 @@
+import { Point, Polygon } from './types';
+import { calculateBounds, calculatePolygonArea, calculatePolygonCentroid, createRectangle, offsetPolygon, pointInPolygon, transformPolygon } from './geometry';
+import { differencePolygons, intersectPolygons } from './clipper';
+import { PackedPiece, PackedResult, SheetPlacement, measurePacking } from './packing';
+import { fillRemnant } from './remnants';
+
+/**
+ * Where a piece sits in a packed layout
+ */
+export interface PieceLocation {
+  sheet: number;
+  index: number; // into the sheet's pieces
+}
+
+/**
+ * How far a piece may overlap a neighbour or the sheet edge and still count
+ * as touching it, in mm
+ */
+const OVERLAP_TOLERANCE = 0.01;
+
+/**
+ * A piece's cut line (seam allowance included) in sheet coordinates
+ */
+export function placedPolygon(packedPiece: PackedPiece): Polygon {
+  return transformPolygon(packedPiece.piece.polygon, packedPiece.x, packedPiece.y, packedPiece.rotation);
+}
+
+/**
+ * Index of the piece on a sheet whose cut line contains a point, or -1
+ */
+export function packedPieceAt(packed: PackedResult, sheet: number, point: Point): number {
+  const pieces = packed.sheets[sheet]?.pieces ?? [];
+  // Later pieces are drawn on top
+  for (let index = pieces.length - 1; index >= 0; index--) {
+    if (pointInPolygon(point, placedPolygon(pieces[index]))) return index;
+  }
+  return -1;
+}
+
+/**
+ * Where the piece with this id is in a layout, or null if it isn't placed
+ */
+export function locatePackedPiece(packed: PackedResult, id: string): PieceLocation | null {
+  for (const [sheet, { pieces }] of packed.sheets.entries()) {
+    const index = pieces.findIndex(p => p.piece.id === id);
+    if (index >= 0) return { sheet, index };
+  }
+  return null;
+}
+
+/**
+ * Re-measure a layout after its sheets were edited by hand. Sheets left without
+ * pieces are dropped unless `keepEmpty` is set, which keeps sheet indices
+ * stable while a piece is being dragged.
+ */
+function remeasure(packed: PackedResult, sheets: SheetPlacement[], keepEmpty: boolean): PackedResult {
+  const kept = keepEmpty ? sheets : sheets.filter(sheet => sheet.pieces.length > 0);
+  return { ...measurePacking(packed.mode, kept, packed.unplacedPieces, packed.sheetWidth, packed.sheetHeight), adjusted: true };
+}
+
+/**
+ * Move a piece to a position and rotation on any sheet of the layout (the
+ * same one or another), re-measuring the result. Placement is not checked;
+ * see pieceConflicts.
+ * @param keepEmpty - keep a sheet the move leaves empty, e.g. while dragging
+ */
+export function movePackedPiece(
+  packed: PackedResult,
+  from: PieceLocation,
+  to: { sheet: number; x: number; y: number; rotation: number },
+  keepEmpty: boolean = false
+): PackedResult {
+  const moving = packed.sheets[from.sheet].pieces[from.index];
+  const moved: PackedPiece = { ...moving, x: to.x, y: to.y, rotation: to.rotation };
+
+  const sheets = packed.sheets.map((sheet, index) => {
+    let pieces = index === from.sheet ? sheet.pieces.filter((_, i) => i !== from.index) : sheet.pieces;
+    if (index === to.sheet) {
+      // A piece staying on its sheet keeps its place in the drawing order
+      pieces = index === from.sheet
+        ? sheet.pieces.map((p, i) => (i === from.index ? moved : p))
+        : [...pieces, moved];
+    }
+    return { pieces, ...(sheet.remnant ? { remnant: sheet.remnant } : {}) };
+  });
+
+  return remeasure(packed, sheets, keepEmpty);
+}
+
+/**
+ * Position that turns a piece by `rotation` degrees about its own centre,
+ * keeping the centre where it is
+ */
+export function rotateInPlace(packedPiece: PackedPiece, rotation: number): { x: number; y: number; rotation: number } {
+  const centre = calculatePolygonCentroid(placedPolygon(packedPiece));
+  const turned = calculatePolygonCentroid(transformPolygon(packedPiece.piece.polygon, 0, 0, packedPiece.rotation + rotation));
+  return {
+    x: centre.x - turned.x,
+    y: centre.y - turned.y,
+    rotation: ((packedPiece.rotation + rotation) % 360 + 360) % 360
+  };
+}
+
+/**
+ * What a piece runs into: the ids of the pieces on its sheet that its cut
+ * line overlaps, and whether it reaches past the edge of the fabric or into a
+ * hole of a remnant. In roll mode the bolt may grow longer, so only its width
+ * limits a piece.
+ */
+export function pieceConflicts(packed: PackedResult, at: PieceLocation): { outside: boolean; overlaps: string[] } {
+  const sheet = packed.sheets[at.sheet];
+  const inner = offsetPolygon(placedPolygon(sheet.pieces[at.index]), -OVERLAP_TOLERANCE);
+  const bounds = calculateBounds([inner]);
+
+  const outside = sheet.remnant
+    ? differencePolygons(inner, [sheet.remnant.outline]).length > 0 ||
+      sheet.remnant.holes.some(hole => intersectPolygons(inner, [hole]).length > 0)
+    : bounds.minX < 0 || bounds.minY < 0 || bounds.maxY > packed.sheetHeight ||
+      (packed.mode !== 'roll' && bounds.maxX > packed.sheetWidth);
+
+  const overlaps = sheet.pieces
+    .filter((other, index) => {
+      if (index === at.index) return false;
+      const polygon = placedPolygon(other);
+      const otherBounds = calculateBounds([polygon]);
+      if (otherBounds.minX > bounds.maxX || otherBounds.maxX < bounds.minX ||
+          otherBounds.minY > bounds.maxY || otherBounds.maxY < bounds.minY) {
+        return false;
+      }
+      return intersectPolygons(inner, [polygon]).some(overlap => calculatePolygonArea(overlap) > OVERLAP_TOLERANCE);
+    })
+    .map(other => other.piece.id);
+
+  return { outside, overlaps };
+}
+
+/**
+ * Left-most free position for a piece on a sheet at its current rotation,
+ * keeping `spacing` mm from the pieces already there, or null if it fits
+ * nowhere. In roll mode the bolt is lengthened as far as the piece needs.
+ */
+export function findFreePosition(
+  packed: PackedResult,
+  packedPiece: PackedPiece,
+  sheet: number,
+  spacing: number
+): { x: number; y: number } | null {
+  const target = packed.sheets[sheet];
+  const others = target.pieces.filter(p => p !== packedPiece).map(p => offsetPolygon(placedPolygon(p), spacing));
+
+  let outline: Polygon;
+  if (target.remnant) {
+    outline = target.remnant.outline;
+  } else {
+    const bounds = calculateBounds([packedPiece.piece.polygon]);
+    const extra = packed.mode === 'roll' ? Math.hypot(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) + spacing : 0;
+    outline = createRectangle(0, 0, packed.sheetWidth + extra, packed.sheetHeight);
+  }
+
+  // The sheet as a remnant with the other pieces cut out of it
+  const [placement] = fillRemnant(
+    { id: 'sheet', name: 'sheet', outline, holes: [...(target.remnant?.holes ?? []), ...others] },
+    [{ id: packedPiece.piece.id, polygon: packedPiece.piece.polygon }],
+    [packedPiece.rotation],
+    spacing
+  );
+  return placement ? { x: placement.x, y: placement.y } : null;
+}
@@ -1,6 +1,12 @@
-import { TessellationPiece, Polygon } from './types';
-import { offsetPolygon } from './geometry';
-import { polygonToPath } from './svg';
+import { TessellationPiece, Polygon, Point, SeamJoin, Notch, NotchStyle } from './types';
+import { createRectangle, offsetPolygon, calculateBounds, transformPolygon, calculatePolygonArea, calculatePolygonPerimeter, calculatePolygonCentroid, castRay, edgeNormal } from './geometry';
+import { polygonToPath, notchedCutPath } from './svg';
+import { getGrainline, pieceCutLine } from './tessellation';
+import { formatFabricLength } from './units';
+import { differencePolygons } from './clipper';
+import { strokeText, measureStrokeText, polylinesToPath } from './stroke-font';
+import { MachineProfile, DEFAULT_MACHINE_PROFILE, operationStyle, profileMetadata } from './machine-profiles';
+import { Remnant, remnantArea, remnantSize, fillRemnant } from './remnants';
 import { AnyNest, FloatPolygon, Placement } from 'any-nest';
 
 export interface PackedPiece {
@@ -11,29 +17,100 @@ export interface PackedPiece {
   rotation: number; // degrees
 }
 
-export interface PackedResult {
+/**
+ * Pieces placed on one sheet, and the remnant the sheet is if it isn't fresh fabric
+ */
+export interface SheetPlacement {
   pieces: PackedPiece[];
-  sheetWidth: number;
-  sheetHeight: number;
-  efficiency: number; // 0-100 percentage
+  remnant?: Remnant;
+}
+
+export interface PackedSheet {
+  pieces: PackedPiece[];
+  remnant?: Remnant; // cut from this remnant instead of fresh fabric
+  efficiency: number; // 0-100 percentage of the used part of the sheet (usedLength × sheet height, or the remnant's area) covered by pieces
+  usedLength: number; // mm along x to the far edge of the furthest piece; the nester packs towards x = 0
+  usedHeight: number; // mm along y to the far edge of the lowest piece
+  placedArea: number; // mm² inside the cut lines of the pieces on this sheet
+  waste: Polygon[]; // the sheet or remnant minus the placed pieces; hole outlines wind the opposite way
+}
+
+/**
+ * 'sheets' nests into fixed-size sheets, 'roll' nests along a bolt of fixed width
+ * and minimises the length of fabric consumed
+ */
+export type PackingMode = 'sheets' | 'roll';
+
+export interface PackedResult {
+  mode: PackingMode;
+  sheets: PackedSheet[]; // One entry per sheet, remnants first; pieces spill onto extra sheets when needed
+  unplacedPieces: TessellationPiece[]; // Pieces that fit on no sheet at all (e.g. larger than the sheet)
+  sheetWidth: number; // Fresh sheets only. In roll mode, the consumed length (the roll runs along x)
+  sheetHeight: number; // Fresh sheets only. In roll mode, the bolt width
+  consumedLength?: number; // Roll mode only: length of fabric used, in mm
+  placedCount: number; // Pieces on a sheet
+  usedArea: number; // mm², usedLength × sheet height summed over the fresh sheets, plus the area of the remnants used
+  wasteArea: number; // mm², usedArea minus the area of the placed pieces
+  efficiency: number; // 0-100 percentage of usedArea covered by pieces
+  adjusted?: boolean; // pieces were moved by hand after nesting
 }
 
 export interface PackingProgress {
   iteration: number;
   utilization: number;
   isRunning: boolean;
+  elapsed: number; // ms since packing started
+  stage?: string; // what is being filled when remnants are used, e.g. "Remnant 1 of 2: Blue offcut"
+}
+
+/**
+ * How pieces may be rotated relative to the fabric grain:
+ * 'none' allows any angle, 'grain' keeps the grainline on the fabric grain (0°/180°),
+ * 'crossgrain' also allows it across the grain (0°/90°/180°/270°)
+ */
+export type GrainConstraint = 'none' | 'grain' | 'crossgrain';
+
+/**
+ * Number of allowed rotations (360 / n degree steps) passed to the nester
+ */
+const GRAIN_ROTATIONS: Record<GrainConstraint, number> = {
+  none: 360,
+  grain: 2,
+  crossgrain: 4,
+};
+
+/**
+ * Smallest turn, in degrees, that keeps a piece within the grain constraint.
+ * 360 when pieces may not turn at all.
+ */
+export function rotationStep(grainConstraint: GrainConstraint, directional: boolean): number {
+  return directional ? 360 : 360 / GRAIN_ROTATIONS[grainConstraint];
 }
 
 export interface PackingOptions {
+  mode?: PackingMode; // default 'sheets'
+  grainConstraint?: GrainConstraint; // default 'none'. The fabric grain runs along x of the sheet/roll
+  directional?: boolean; // Nap or one-way print: pieces keep a single orientation, not even 180° turns
   sheetWidth: number;
   sheetHeight: number;
+  boltWidth?: number; // Roll mode: usable fabric width (required when mode is 'roll')
   seamAllowance: number;
+  boundaryAllowance?: number; // for edges on the outer boundary of the quilt (default: seamAllowance)
+  seamJoin?: SeamJoin; // corner style of the cut line (default 'miter')
+  miterLimit?: number; // as a multiple of the seam allowance
   spacing: number;
   maxIterations?: number; // Number of iterations to run (default 10)
-  onProgress?: (progress: PackingProgress) => void;
-  onNesterCreated?: (nester: AnyNest) => void;
+  timeLimit?: number; // seconds before packing stops with the best layout so far (default DEFAULT_PACKING_TIME_LIMIT)
+  onProgress?: (progress: PackingProgress, best: PackedResult | null) => void; // after every generation, with the best layout so far
+  signal?: AbortSignal; // aborting stops packing with the best layout so far
+  remnants?: Remnant[]; // filled one at a time, largest first, before any fresh fabric
 }
 
+/**
+ * Default time budget for one packing run, in seconds
+ */
+export const DEFAULT_PACKING_TIME_LIMIT = 30;
+
 /**
  * Convert our Polygon format to any-nest FloatPolygon format
  */
@@ -45,225 +122,478 @@ function toFloatPolygon(polygon: Polygon, id: string): FloatPolygon {
 }
 
 /**
- * Pack polygons using any-nest library
+ * Posted to the nesting worker: everything in PackingOptions except the
+ * main-thread callbacks
+ */
+export type NestingSettings = Omit<PackingOptions, 'onProgress' | 'signal'>;
+
+/**
+ * Messages from packPolygons to the nesting worker (packing.worker.ts)
  */
-export async function packPolygons(
+export type NestingRequest = { type: 'start'; pieces: TessellationPiece[]; settings: NestingSettings };
+
+/**
+ * Messages from the nesting worker back to packPolygons. `best` is the best
+ * layout found so far, null until a generation has placed any pieces.
+ */
+export type NestingResponse =
+  | { type: 'generation'; iteration: number; utilization: number; best: PackedResult | null; stage?: string }
+  | { type: 'done'; iteration: number; utilization: number; best: PackedResult | null; stage?: string }
+  | { type: 'error'; message: string };
+
+/**
+ * Most rotations tried per piece when filling a remnant. Each one is a full
+ * fit test, so the nester's any-angle setting is cut down to 45° steps.
+ */
+const REMNANT_ROTATIONS = 8;
+
+/**
+ * Share of the time limit the remnants get between them, so the fresh fabric
+ * stage always gets to run
+ */
+const REMNANT_TIME_SHARE = 0.5;
+
+/**
+ * Run the nester until settings.maxIterations generations are done, reporting
+ * the best layout after each one. With remnants, each remnant is filled in
+ * turn for up to maxIterations generations, and the pieces left over then go
+ * onto fresh fabric. Runs in whatever thread calls it; the app calls it from
+ * the nesting worker.
+ * @returns a function that stops the nester early
+ */
+export function nestPieces(
   pieces: TessellationPiece[],
-  options: PackingOptions
-): Promise<PackedResult> {
-  console.log('[packPolygons] Starting with pieces:', pieces.length);
-  const { sheetWidth, sheetHeight, seamAllowance, spacing, onProgress, onNesterCreated } = options;
-  console.log('[packPolygons] Options:', { sheetWidth, sheetHeight, seamAllowance, spacing });
+  settings: NestingSettings,
+  onGeneration: (response: Extract<NestingResponse, { type: 'generation' | 'done' }>) => void
+): () => void {
+  const { mode = 'sheets', grainConstraint = 'none', directional = false, seamAllowance, boundaryAllowance, seamJoin, miterLimit, spacing } = settings;
+  const maxIterations = settings.maxIterations || 10; // Let algorithm run for N generations
+
+  if (mode === 'roll' && !settings.boltWidth) {
+    throw new Error('Roll packing requires a bolt width');
+  }
 
   // Apply seam allowance to all pieces first
-  console.log('[packPolygons] Applying seam allowance...');
   const piecesWithSeams = pieces.map(piece => ({
     ...piece,
-    polygon: offsetPolygon(piece.polygon, seamAllowance)
+    polygon: pieceCutLine(piece, seamAllowance, { boundaryAllowance, join: seamJoin, miterLimit })
   }));
-  console.log('[packPolygons] Seam allowance applied');
-
-  // Create bin (sheet) as a rectangle
-  console.log('[packPolygons] Creating bin...');
-  const bin = FloatPolygon.fromPoints([
-    { x: 0, y: 0 },
-    { x: sheetWidth, y: 0 },
-    { x: sheetWidth, y: sheetHeight },
-    { x: 0, y: sheetHeight }
-  ], 'bin');
-  console.log('[packPolygons] Bin created');
-
-  // Convert pieces to FloatPolygon format
-  console.log('[packPolygons] Converting pieces to FloatPolygon...');
-  const parts = piecesWithSeams.map(piece =>
-    toFloatPolygon(piece.polygon, piece.id)
-  );
-  console.log('[packPolygons] Converted', parts.length, 'parts');
-
-  // Create and configure nester
-  console.log('[packPolygons] Creating AnyNest instance...');
-  const nester = new AnyNest();
-
-  // IMPORTANT: Config must be set before bin and parts
-  console.log('[packPolygons] Configuring nester...');
-  nester.config({
-    spacing: spacing,
-    rotations: 360, // Allow any rotation angle (1 degree increments)
-    populationSize: 20, // Larger population for better results
-    mutationRate: 10,
-    useHoles: false,
-    exploreConcave: false
-  });
-  console.log('[packPolygons] Nester configured');
 
-  console.log('[packPolygons] Setting bin and parts...');
-  nester.setBin(bin);
-  nester.setParts(parts);
-  console.log('[packPolygons] Bin and parts set');
+  // When grain matters, turn every piece so its grainline lies along the fabric grain (x axis)
+  // before nesting. The nester then only rotates in grain-preserving steps, and this
+  // base rotation is added back onto each placement.
+  const baseRotations = new Map(pieces.map(piece => [
+    piece.id,
+    grainConstraint === 'none' ? 0 : -getGrainline(piece)
+  ]));
+  const nestPolygons = new Map(piecesWithSeams.map(piece => [
+    piece.id,
+    transformPolygon(piece.polygon, 0, 0, baseRotations.get(piece.id)!)
+  ]));
+  const rotations = directional ? 1 : GRAIN_ROTATIONS[grainConstraint]; // 1 = original orientation only, 360 = any angle (1 degree increments)
+
+  // In roll mode the bin is the bolt laid out along x, long enough to hold every
+  // piece end to end. The nester packs towards x = 0, so the used length is minimised.
+  const sheetWidth = mode === 'roll' ? calculateRollBinLength([...nestPolygons.values()], spacing) : settings.sheetWidth;
+  const sheetHeight = mode === 'roll' ? settings.boltWidth! : settings.sheetHeight;
+
+  const remnants = [...(settings.remnants ?? [])].sort((a, b) => remnantArea(b) - remnantArea(a));
+  const remnantTimeLimit = ((settings.timeLimit ?? DEFAULT_PACKING_TIME_LIMIT) * 1000 * REMNANT_TIME_SHARE) / Math.max(1, remnants.length);
+  const filled: SheetPlacement[] = []; // remnants done with
+  let nester: AnyNest | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  // Convert a placement to our format, or null if it isn't one of our pieces
+  const toPackedPiece = (id: string, x: number, y: number, rotation: number): PackedPiece | null => {
+    const pieceWithSeam = piecesWithSeams.find(p => p.id === id);
+    const originalPiece = pieces.find(p => p.id === id);
+    if (!pieceWithSeam || !originalPiece) return null;
+
+    return {
+      piece: pieceWithSeam,
+      originalPiece: originalPiece,
+      x,
+      y,
+      rotation: rotation + baseRotations.get(id)!
+    };
+  };
 
-  // Expose nester instance for stopping
-  if (onNesterCreated) {
-    console.log('[packPolygons] Calling onNesterCreated...');
-    onNesterCreated(nester);
-  }
+  // Layout from the remnants filled so far plus the current stage's best sheets
+  const combine = (stageSheets: SheetPlacement[]): PackedResult | null => {
+    const sheets = [...filled, ...stageSheets].filter(sheet => sheet.pieces.length > 0);
+    if (sheets.length === 0) return null;
 
-  // Run nesting algorithm
-  console.log('[packPolygons] Starting nesting algorithm...');
-  return new Promise<PackedResult>((resolve, reject) => {
-    let bestResult: PackedResult | null = null;
+    // Any piece missing from every sheet could not be placed at all
+    const placedIds = new Set(sheets.flatMap(sheet => sheet.pieces.map(p => p.originalPiece.id)));
+    const unplacedPieces = pieces.filter(p => !placedIds.has(p.id));
+
+    return measurePacking(mode, sheets, unplacedPieces, sheetWidth, sheetHeight);
+  };
+
+  // Pieces no filled remnant has taken, largest first
+  const remainingParts = () => {
+    const usedIds = new Set(filled.flatMap(sheet => sheet.pieces.map(p => p.originalPiece.id)));
+    return piecesWithSeams
+      .filter(piece => !usedIds.has(piece.id))
+      .map(piece => ({ id: piece.id, polygon: nestPolygons.get(piece.id)! }))
+      .sort((a, b) => calculatePolygonArea(b.polygon) - calculatePolygonArea(a.polygon));
+  };
+
+  // Fill remnants[index]. The first generation places the pieces largest first;
+  // each later one retries the best order so far with two pieces swapped, until
+  // maxIterations generations or the remnant's share of the time limit are used.
+  const fillRemnantStage = (index: number) => {
+    if (index >= remnants.length) {
+      nestFreshFabric();
+      return;
+    }
+
+    const remnant = remnants[index];
+    const stage = `Remnant ${index + 1} of ${remnants.length}: ${remnant.name}`;
+    const remnantRotations = Array.from(
+      { length: Math.min(rotations, REMNANT_ROTATIONS) },
+      (_, i) => (i * 360) / Math.min(rotations, REMNANT_ROTATIONS)
+    );
+    let order = remainingParts();
+    let best: SheetPlacement = { remnant, pieces: [] };
+    let bestArea = -1;
     let iterationCount = 0;
-    const maxIterations = options.maxIterations || 10; // Let algorithm run for N generations
-
-    // Use setTimeout to prevent blocking the UI thread
-    console.log('[packPolygons] Scheduling nester.start()...');
-    setTimeout(() => {
-      console.log('[packPolygons] Calling nester.start()...');
-      nester.start(
-      (progress: number) => {
-        // Progress callback - could be used for UI updates
-        console.log('[packPolygons] Nesting progress callback:', (progress * 100).toFixed(1) + '%');
+    const startedAt = performance.now();
+
+    const generation = () => {
+      iterationCount++;
+
+      const candidate = [...order];
+      if (iterationCount > 1) {
+        const i = Math.floor(Math.random() * candidate.length);
+        const j = Math.floor(Math.random() * candidate.length);
+        [candidate[i], candidate[j]] = [candidate[j], candidate[i]];
+      }
+
+      const placed = fillRemnant(remnant, candidate, remnantRotations, spacing)
+        .flatMap(placement => toPackedPiece(placement.id, placement.x, placement.y, placement.rotation) ?? []);
+      const area = placed.reduce((sum, p) => sum + calculatePolygonArea(p.piece.polygon), 0);
+      if (area > bestArea) {
+        order = candidate;
+        best = { remnant, pieces: placed };
+        bestArea = area;
+      }
+
+      onGeneration({
+        type: 'generation',
+        iteration: iterationCount,
+        utilization: (bestArea / remnantArea(remnant)) * 100,
+        best: combine([best]),
+        stage
+      });
+      if (stopped) return;
+
+      // Once every piece is in there is nothing left to improve
+      const finished = iterationCount >= maxIterations || performance.now() - startedAt >= remnantTimeLimit;
+      if (finished || best.pieces.length === order.length) {
+        filled.push(best);
+        fillRemnantStage(index + 1);
+      } else {
+        timer = setTimeout(generation, 0);
+      }
+    };
+
+    timer = setTimeout(generation, 0);
+  };
+
+  // Nest whatever the remnants didn't take onto fresh sheets or the roll
+  const nestFreshFabric = () => {
+    const stage = remnants.length > 0 ? 'Fresh fabric' : undefined;
+    const parts = remainingParts();
+    if (parts.length === 0) {
+      onGeneration({ type: 'done', iteration: 0, utilization: 0, best: combine([]), stage });
+      return;
+    }
+
+    // Create bin (sheet) as a rectangle
+    const bin = FloatPolygon.fromPoints([
+      { x: 0, y: 0 },
+      { x: sheetWidth, y: 0 },
+      { x: sheetWidth, y: sheetHeight },
+      { x: 0, y: sheetHeight }
+    ], 'bin');
+
+    // Create and configure nester
+    const freshNester = new AnyNest();
+    nester = freshNester;
+
+    // IMPORTANT: Config must be set before bin and parts
+    freshNester.config({
+      spacing: spacing,
+      rotations,
+      populationSize: 20, // Larger population for better results
+      mutationRate: 10,
+      useHoles: false,
+      exploreConcave: false
+    });
+
+    freshNester.setBin(bin);
+    freshNester.setParts(parts.map(part => toFloatPolygon(part.polygon, part.id)));
+
+    let stageSheets: SheetPlacement[] = [];
+    let iterationCount = 0;
+
+    freshNester.start(
+      () => {
+        // Progress within a generation is not reported; the page tracks elapsed time instead
       },
       (placements: Placement[][], utilization: number) => {
         iterationCount++;
-        console.log(`[packPolygons] Iteration callback ${iterationCount}, Utilization: ${(utilization * 100).toFixed(1)}%`);
-
-        // Report progress to UI
-        if (onProgress) {
-          console.log('[packPolygons] Calling onProgress callback...');
-          onProgress({
-            iteration: iterationCount,
-            utilization: utilization * 100,
-            isRunning: true
-          });
-        }
-
-        if (!placements || placements.length === 0 || placements[0].length === 0) {
-          console.warn('Any-nest could not find valid placement');
-          return;
-        }
 
-        // Convert placements to our format
-        const packed: PackedPiece[] = [];
-
-        for (const placement of placements[0]) {
-          const pieceWithSeam = piecesWithSeams.find(p => p.id === placement.id);
-          const originalPiece = pieces.find(p => p.id === placement.id);
-          if (pieceWithSeam && originalPiece) {
-            packed.push({
-              piece: pieceWithSeam,
-              originalPiece: originalPiece,
-              x: placement.translate.x,
-              y: placement.translate.y,
-              rotation: placement.rotate
-            });
-          }
+        // Placements are missing when some piece fits in no bin at all.
+        // any-nest returns one placement list per sheet.
+        if (placements && placements.length > 0 && placements[0].length > 0) {
+          stageSheets = placements.map(sheetPlacements => ({
+            pieces: sheetPlacements.flatMap(placement =>
+              toPackedPiece(placement.id, placement.translate.x, placement.translate.y, placement.rotate) ?? []
+            )
+          }));
         }
 
-        // Calculate efficiency
-        const totalArea = piecesWithSeams.reduce((sum, piece) => {
-          return sum + calculatePolygonArea(piece.polygon);
-        }, 0);
-        const sheetArea = sheetWidth * sheetHeight;
-        const efficiency = (totalArea / sheetArea) * 100;
-
-        // Update best result
-        bestResult = {
-          pieces: packed,
-          sheetWidth,
-          sheetHeight,
-          efficiency
-        };
-
         // Stop after maxIterations generations to get a good result
-        if (iterationCount >= maxIterations) {
-          console.log(`Stopping after ${iterationCount} iterations with ${efficiency.toFixed(1)}% efficiency`);
-          nester.stop();
-
-          // Report final state
-          if (onProgress) {
-            onProgress({
-              iteration: iterationCount,
-              utilization: utilization * 100,
-              isRunning: false
-            });
-          }
-
-          resolve(bestResult);
+        const finished = iterationCount >= maxIterations;
+        if (finished) {
+          freshNester.stop();
         }
+
+        onGeneration({
+          type: finished ? 'done' : 'generation',
+          iteration: iterationCount,
+          utilization: utilization * 100,
+          best: combine(stageSheets),
+          stage
+        });
       }
     );
-    }, 0); // End of setTimeout wrapper
+  };
 
-    // Timeout after 30 seconds as safety measure
-    setTimeout(() => {
-      console.log('Packing timeout reached');
-      nester.stop();
+  fillRemnantStage(0);
 
-      // Report stopped state
-      if (onProgress) {
-        onProgress({
-          iteration: iterationCount,
-          utilization: bestResult ? bestResult.efficiency : 0,
-          isRunning: false
-        });
+  return () => {
+    stopped = true;
+    nester?.stop();
+    if (timer) clearTimeout(timer);
+  };
+}
+
+/**
+ * Pack polygons using any-nest in a Web Worker, so the page stays responsive.
+ * Resolves with the best layout when maxIterations generations are done, the
+ * time limit runs out or `signal` is aborted; rejects if no layout was found
+ * by then.
+ */
+export function packPolygons(
+  pieces: TessellationPiece[],
+  options: PackingOptions
+): Promise<PackedResult> {
+  const { onProgress, signal, ...settings } = options;
+  const timeLimit = (settings.timeLimit ?? DEFAULT_PACKING_TIME_LIMIT) * 1000;
+
+  return new Promise<PackedResult>((resolve, reject) => {
+    const worker = new Worker(new URL('./packing.worker.ts', import.meta.url), { type: 'module' });
+    const startedAt = performance.now();
+    let best: PackedResult | null = null;
+    let iteration = 0;
+    let utilization = 0;
+    let stage: string | undefined;
+
+    const report = (isRunning: boolean) => {
+      onProgress?.({ iteration, utilization, isRunning, elapsed: performance.now() - startedAt, stage }, best);
+    };
+
+    // Terminating rather than asking the worker to stop also cuts a generation short
+    const finish = (failure: string) => {
+      worker.terminate();
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+      report(false);
+      if (best) {
+        resolve(best);
+      } else {
+        reject(new Error(failure));
       }
+    };
 
-      if (bestResult) {
-        resolve(bestResult);
+    const abort = () => finish('Packing stopped before a layout was found');
+    const timer = setTimeout(() => finish('No valid packing found within the time limit'), timeLimit);
+    signal?.addEventListener('abort', abort);
+
+    worker.onmessage = (event: MessageEvent<NestingResponse>) => {
+      const message = event.data;
+      if (message.type === 'error') {
+        finish(message.message);
+        return;
+      }
+
+      iteration = message.iteration;
+      utilization = message.utilization;
+      stage = message.stage;
+      best = message.best ?? best;
+
+      if (message.type === 'done') {
+        finish('No valid packing found');
       } else {
-        reject(new Error('No valid packing found within timeout period'));
+        report(true);
       }
-    }, 30000);
+    };
+    worker.onerror = (event) => finish(event.message || 'Nesting worker failed');
+
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+
+    const request: NestingRequest = { type: 'start', pieces, settings };
+    worker.postMessage(request);
+    report(true);
   });
 }
 
 /**
- * Calculate area of a polygon using shoelace formula
+ * Length of the roll bin: every piece laid end to end along its longest side,
+ * which is always enough to hold them all
+ */
+function calculateRollBinLength(polygons: Polygon[], spacing: number): number {
+  return polygons.reduce((sum, polygon) => {
+    const bounds = calculateBounds([polygon]);
+    return sum + Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) + spacing * 2;
+  }, 0);
+}
+
+/**
+ * Build a packed result from the pieces placed on each sheet, measuring what
+ * was actually used: the extent of the pieces on every sheet, efficiency
+ * against that used area rather than the nominal sheet, and the leftover
+ * fabric. In roll mode the bolt is trimmed to the consumed length. A remnant
+ * is used up whole, so its area counts in full and what is left of it is waste.
  */
-function calculatePolygonArea(polygon: Polygon): number {
-  let area = 0;
-  const n = polygon.length;
+export function measurePacking(
+  mode: PackingMode,
+  placements: SheetPlacement[],
+  unplacedPieces: TessellationPiece[],
+  sheetWidth: number,
+  sheetHeight: number
+): PackedResult {
+  const placedPolygons = placements.map(({ pieces }) =>
+    pieces.map(p => transformPolygon(p.piece.polygon, p.x, p.y, p.rotation))
+  );
+  const extents = placedPolygons.map(polygons => polygons.length > 0 ? calculateBounds(polygons) : null);
+
+  // Pieces cut from remnants don't take any of the bolt
+  const length = mode === 'roll'
+    ? Math.max(0, ...extents.map((bounds, index) => placements[index].remnant ? 0 : bounds?.maxX ?? 0))
+    : sheetWidth;
+
+  const sheets: PackedSheet[] = placements.map(({ pieces: packed, remnant }, index) => {
+    const size = remnant ? remnantSize(remnant) : { width: length, height: sheetHeight };
+    const usedLength = Math.min(size.width, Math.max(0, extents[index]?.maxX ?? 0));
+    const usedHeight = Math.min(size.height, Math.max(0, extents[index]?.maxY ?? 0));
+    const placedArea = placedPolygons[index].reduce((sum, polygon) => sum + calculatePolygonArea(polygon), 0);
+    const usedArea = remnant ? remnantArea(remnant) : usedLength * sheetHeight;
+
+    return {
+      pieces: packed,
+      ...(remnant ? { remnant } : {}),
+      efficiency: usedArea > 0 ? (placedArea / usedArea) * 100 : 0,
+      usedLength,
+      usedHeight,
+      placedArea,
+      waste: remnant
+        ? differencePolygons(remnant.outline, [...remnant.holes, ...placedPolygons[index]])
+        : differencePolygons(createRectangle(0, 0, length, sheetHeight), placedPolygons[index])
+    };
+  });
 
-  for (let i = 0; i < n; i++) {
-    const j = (i + 1) % n;
-    area += polygon[i].x * polygon[j].y;
-    area -= polygon[j].x * polygon[i].y;
-  }
+  const usedArea = sheets.reduce((sum, sheet) => sum + (sheet.remnant ? remnantArea(sheet.remnant) : sheet.usedLength * sheetHeight), 0);
+  const placedArea = sheets.reduce((sum, sheet) => sum + sheet.placedArea, 0);
+  const result: PackedResult = {
+    mode,
+    sheets,
+    unplacedPieces,
+    sheetWidth: length,
+    sheetHeight,
+    placedCount: sheets.reduce((sum, sheet) => sum + sheet.pieces.length, 0),
+    usedArea,
+    wasteArea: Math.max(0, usedArea - placedArea),
+    efficiency: usedArea > 0 ? (placedArea / usedArea) * 100 : 0
+  };
 
-  return Math.abs(area / 2);
+  return mode === 'roll' ? { ...result, consumedLength: length } : result;
 }
 
 /**
- * Calculate centroid of a polygon
+ * Fabric and cutting totals for one packed color
  */
-function calculatePolygonCentroid(polygon: Polygon): { x: number; y: number } {
-  let cx = 0;
-  let cy = 0;
-  let area = 0;
-  const n = polygon.length;
+export interface PackingSummary {
+  sheets: number; // fresh sheets used (roll mode: 1, the consumed length)
+  remnants: number; // remnants cut from
+  placed: number; // pieces on a sheet
+  unplaced: number; // pieces that fit on no sheet
+  materialArea: number; // mm² of fabric used, up to the used length of each sheet
+  pieceArea: number; // mm² inside the cut lines of the placed pieces
+  wasteArea: number; // materialArea - pieceArea, in mm²
+  cutLength: number; // mm the cutter travels along the cut lines (notches and kerf ignored)
+  efficiency: number; // 0-100
+}
 
-  for (let i = 0; i < n; i++) {
-    const j = (i + 1) % n;
-    const cross = polygon[i].x * polygon[j].y - polygon[j].x * polygon[i].y;
-    cx += (polygon[i].x + polygon[j].x) * cross;
-    cy += (polygon[i].y + polygon[j].y) * cross;
-    area += cross;
-  }
+export function summarizePacking(packed: PackedResult): PackingSummary {
+  const placed = packed.sheets.flatMap(sheet => sheet.pieces);
 
-  area *= 0.5;
-  const factor = 1 / (6 * area);
+  const remnants = packed.sheets.filter(sheet => sheet.remnant).length;
 
   return {
-    x: cx * factor,
-    y: cy * factor
+    sheets: packed.sheets.length - remnants,
+    remnants,
+    placed: packed.placedCount,
+    unplaced: packed.unplacedPieces.length,
+    materialArea: packed.usedArea,
+    pieceArea: packed.sheets.reduce((sum, sheet) => sum + sheet.placedArea, 0),
+    wasteArea: packed.wasteArea,
+    cutLength: placed.reduce((sum, p) => sum + calculatePolygonPerimeter(p.piece.polygon), 0),
+    efficiency: packed.efficiency,
+  };
+}
+
+/**
+ * SVG path data for a double-headed grainline arrow through the middle of a piece
+ * @param angle - grain direction in degrees, in the polygon's own coordinates
+ */
+function grainlineArrowPath(polygon: Polygon, angle: number): string {
+  const centroid = calculatePolygonCentroid(polygon);
+  const bounds = calculateBounds([polygon]);
+  const halfLength = Math.min(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) * 0.3;
+  const headSize = halfLength * 0.3;
+
+  const rad = (angle * Math.PI) / 180;
+  const dir = { x: Math.cos(rad), y: Math.sin(rad) };
+  const normal = { x: -dir.y, y: dir.x };
+
+  const start = { x: centroid.x - dir.x * halfLength, y: centroid.y - dir.y * halfLength };
+  const end = { x: centroid.x + dir.x * halfLength, y: centroid.y + dir.y * halfLength };
+
+  // Arrow head at a tip, pointing along `sign * dir`
+  const head = (tip: Point, sign: number) => {
+    const backX = tip.x - sign * dir.x * headSize;
+    const backY = tip.y - sign * dir.y * headSize;
+    const left = { x: backX + normal.x * headSize * 0.5, y: backY + normal.y * headSize * 0.5 };
+    const right = { x: backX - normal.x * headSize * 0.5, y: backY - normal.y * headSize * 0.5 };
+    return ` M ${left.x.toFixed(3)} ${left.y.toFixed(3)} L ${tip.x.toFixed(3)} ${tip.y.toFixed(3)} L ${right.x.toFixed(3)} ${right.y.toFixed(3)}`;
   };
+
+  return `M ${start.x.toFixed(3)} ${start.y.toFixed(3)} L ${end.x.toFixed(3)} ${end.y.toFixed(3)}` + head(end, 1) + head(start, -1);
 }
 
 /**
  * Generate grid coordinate label for a piece
  * Format: "(row, col)" or "(row, col) L/R" for split pieces
  */
-function generateGridLabel(piece: TessellationPiece): string {
+export function generateGridLabel(piece: TessellationPiece): string {
   const baseLabel = `(${piece.row}, ${piece.gridCol})`;
 
   if (piece.position === 'top') {
@@ -275,80 +605,356 @@ function generateGridLabel(piece: TessellationPiece): string {
   return baseLabel;
 }
 
+interface PackedSVGOptions {
+  padding?: number;
+  units?: string;
+  profile?: MachineProfile; // stroke colors and widths per laser operation, and kerf compensation
+  showLabels?: boolean;
+  showSewingLines?: boolean;
+  showGrainlines?: boolean;
+  notchStyle?: NotchStyle; // registration notches on the cut lines (default 'none')
+  selectedPieceId?: string; // piece being adjusted, highlighted (preview only)
+  conflictPieceIds?: Set<string>; // pieces that overlap or leave the fabric, highlighted (preview only)
+}
+
 /**
- * Generate SVG for packed layout
- * Shows both original pieces (sewing lines) and offset pieces (cutting lines)
+ * Tallest engraved label, in mm
  */
-export function generatePackedSVG(
-  packed: PackedResult,
-  colorName: string,
-  options: {
-    padding?: number;
-    units?: string;
-    strokeWidth?: number;
-    showLabels?: boolean;
-    showSewingLines?: boolean;
-  } = {}
+const MAX_LABEL_HEIGHT = 5;
+
+/**
+ * Label height for pieces without a seam allowance to hide the label in, in mm
+ */
+const FALLBACK_LABEL_HEIGHT = 4;
+
+/**
+ * Share of the seam allowance width a label may fill
+ */
+const LABEL_FILL = 0.6;
+
+/**
+ * Space kept clear between a label and corners or notches, in mm
+ */
+const LABEL_CLEARANCE = 2;
+
+/**
+ * Lay a label out as engraving strokes inside the seam allowance, in piece coordinates.
+ * The label runs along whichever stretch of sewing line (between corners and notches)
+ * fits the largest lettering, centred between the sewing and cut lines with the tops
+ * of the letters towards the cut edge. Pieces without seam allowance get the label
+ * across their middle instead.
+ */
+function seamAllowanceLabel(cut: Polygon, sewing: Polygon, notches: Notch[], text: string): Polygon[] {
+  const widthPerHeight = measureStrokeText(text, 1);
+  let best: { height: number; centre: Point; normal: Point } | null = null;
+
+  for (let i = 0; i < sewing.length; i++) {
+    const a = sewing[i];
+    const b = sewing[(i + 1) % sewing.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length === 0 || widthPerHeight === 0) continue;
+
+    const u = { x: (b.x - a.x) / length, y: (b.y - a.y) / length };
+    const normal = edgeNormal(sewing, i);
+    const at = (t: number): Point => ({ x: a.x + u.x * t, y: a.y + u.y * t });
+
+    // Notches on this edge, as distances from a
+    const notchStops = notches
+      .filter(notch => Math.abs((notch.point.x - a.x) * u.y - (notch.point.y - a.y) * u.x) < 0.01)
+      .map(notch => (notch.point.x - a.x) * u.x + (notch.point.y - a.y) * u.y)
+      .filter(t => t > 0 && t < length)
+      .sort((p, q) => p - q);
+    const stops = [0, ...notchStops, length];
+
+    for (let k = 0; k + 1 < stops.length; k++) {
+      const start = stops[k] + LABEL_CLEARANCE;
+      const end = stops[k + 1] - LABEL_CLEARANCE;
+      if (end <= start) continue;
+
+      const middle = (start + end) / 2;
+      const allowance = castRay(cut, at(middle), normal) ?? 0;
+      let height = Math.min(MAX_LABEL_HEIGHT, (end - start) / widthPerHeight, allowance * LABEL_FILL);
+
+      // The allowance narrows towards some corners: check it where the label would end too
+      const halfWidth = (height * widthPerHeight) / 2;
+      for (const t of [middle - halfWidth, middle + halfWidth]) {
+        height = Math.min(height, (castRay(cut, at(t), normal) ?? 0) * LABEL_FILL);
+      }
+
+      if (height > (best?.height ?? 0)) {
+        const centre = at(middle);
+        best = { height, centre: { x: centre.x + normal.x * allowance / 2, y: centre.y + normal.y * allowance / 2 }, normal };
+      }
+    }
+  }
+
+  if (!best) {
+    const centroid = calculatePolygonCentroid(sewing);
+    return strokeText(text, FALLBACK_LABEL_HEIGHT).map(stroke => transformPolygon(stroke, centroid.x, centroid.y, 0));
+  }
+
+  // Read along the edge with the letters' baseline towards the piece
+  const angle = (Math.atan2(best.normal.x, -best.normal.y) * 180) / Math.PI;
+  return strokeText(text, best.height).map(stroke => transformPolygon(stroke, best!.centre.x, best!.centre.y, angle));
+}
+
+/**
+ * Render the pieces of one sheet as SVG elements, in sheet coordinates
+ */
+function renderSheetContents(
+  sheet: PackedSheet,
+  show: { labels: boolean; sewingLines: boolean; grainlines: boolean; notches: NotchStyle },
+  indent: string,
+  kerf: number
 ): string {
-  const { padding = 10, units = 'mm', strokeWidth = 0.1, showLabels = true, showSewingLines = true } = options;
+  let content = '';
 
-  const width = packed.sheetWidth + padding * 2;
-  const height = packed.sheetHeight + padding * 2;
+  // Draw all packed pieces - first original (sewing lines), then offset (cutting lines)
+  for (const packedPiece of sheet.pieces) {
+    const transform = `translate(${packedPiece.x.toFixed(3)}, ${packedPiece.y.toFixed(3)}) rotate(${packedPiece.rotation})`;
 
-  let svg = `<?xml version="1.0" encoding="UTF-8"?>
-<svg xmlns="http://www.w3.org/2000/svg" width="${width}${units}" height="${height}${units}" viewBox="0 0 ${width} ${height}">
+    // Draw original piece as dashed line (sewing guide) if enabled
+    if (show.sewingLines) {
+      const originalPathData = polygonToPath(packedPiece.originalPiece.polygon);
+      content += `${indent}<path id="${packedPiece.originalPiece.id}-sewing" class="sewing-line" transform="${transform}" d="${originalPathData}"/>\n`;
+    }
+
+    // Draw offset piece as solid line (cutting line), notched where it meets its neighbours.
+    // The beam runs half a kerf outside the line so the piece keeps its size.
+    const cutPolygon = kerf > 0 ? offsetPolygon(packedPiece.piece.polygon, kerf / 2) : packedPiece.piece.polygon;
+    const cutPathData = notchedCutPath(cutPolygon, packedPiece.piece.notches, show.notches);
+    content += `${indent}<path id="${packedPiece.piece.id}" class="cut-line" transform="${transform}" d="${cutPathData}"/>\n`;
+
+    // Draw grainline arrow in piece coordinates so it turns with the piece
+    if (show.grainlines) {
+      const arrowPathData = grainlineArrowPath(packedPiece.originalPiece.polygon, getGrainline(packedPiece.originalPiece));
+      content += `${indent}<path id="${packedPiece.piece.id}-grainline" class="grainline" transform="${transform}" d="${arrowPathData}"/>\n`;
+    }
+  }
+
+  // Add labels if enabled, as single-stroke paths on their own engrave layer
+  if (show.labels) {
+    content += `${indent}<g class="engrave-layer">\n`;
+    for (const packedPiece of sheet.pieces) {
+      const transform = `translate(${packedPiece.x.toFixed(3)}, ${packedPiece.y.toFixed(3)}) rotate(${packedPiece.rotation})`;
+      const strokes = seamAllowanceLabel(
+        packedPiece.piece.polygon,
+        packedPiece.originalPiece.polygon,
+        packedPiece.originalPiece.notches ?? [],
+        generateGridLabel(packedPiece.originalPiece)
+      );
+      content += `${indent}  <path id="${packedPiece.piece.id}-label" class="engrave" transform="${transform}" d="${polylinesToPath(strokes)}"/>\n`;
+    }
+    content += `${indent}</g>\n`;
+  }
+
+  return content;
+}
+
+function packedSVGStyles(profile: MachineProfile): string {
+  const { cut, score, engrave } = profile.operations;
+  return `  ${profileMetadata(profile)}
   <defs>
     <style>
-      .cut-line { fill: none; stroke: black; stroke-width: ${strokeWidth * 3}; }
-      .sewing-line { fill: none; stroke: #666; stroke-width: ${strokeWidth * 2}; stroke-dasharray: 3,3; }
+      ${operationStyle('cut-line', cut)}
+      ${operationStyle('sewing-line', score, 'stroke-dasharray: 3,3;')}
       .sheet-boundary { fill: none; stroke: #ccc; stroke-width: 0.5; stroke-dasharray: 5,5; }
+      ${operationStyle('grainline', score)}
+      ${operationStyle('engrave', engrave, 'stroke-linecap: round; stroke-linejoin: round;')}
     </style>
   </defs>
-  <g transform="translate(${padding}, ${padding})">
-    <!-- Sheet boundary -->
-    <rect class="sheet-boundary" x="0" y="0" width="${packed.sheetWidth}" height="${packed.sheetHeight}"/>
 `;
+}
 
-  // Draw all packed pieces - first original (sewing lines), then offset (cutting lines)
-  for (const packedPiece of packed.pieces) {
-    const transform = `translate(${packedPiece.x.toFixed(3)}, ${packedPiece.y.toFixed(3)}) rotate(${packedPiece.rotation})`;
+/**
+ * Styles for the outlines drawn while a layout is adjusted by hand
+ */
+const HIGHLIGHT_STYLES = `  <style>
+    .selected-outline { fill: rgba(52, 152, 219, 0.15); stroke: #3498DB; stroke-width: 1.5; pointer-events: none; }
+    .conflict-outline { fill: rgba(231, 76, 60, 0.25); stroke: #E74C3C; stroke-width: 1.5; pointer-events: none; }
+  </style>
+`;
 
-    // Draw original piece as dashed line (sewing guide) if enabled
-    if (showSewingLines) {
-      const originalPathData = polygonToPath(packedPiece.originalPiece.polygon);
-      svg += `    <path id="${packedPiece.originalPiece.id}-sewing" class="sewing-line" transform="${transform}" d="${originalPathData}"/>\n`;
-    }
+/**
+ * Caption text for one sheet of a packed layout
+ */
+function describeSheet(packed: PackedResult, index: number, colorName: string): string {
+  const sheet = packed.sheets[index];
 
-    // Draw offset piece as solid line (cutting line)
-    const cutPathData = polygonToPath(packedPiece.piece.polygon);
-    svg += `    <path id="${packedPiece.piece.id}" class="cut-line" transform="${transform}" d="${cutPathData}"/>\n`;
+  if (sheet.remnant) {
+    const { width, height } = remnantSize(sheet.remnant);
+    return `${colorName} - Remnant "${sheet.remnant.name}" - ${sheet.pieces.length} pieces | ${width.toFixed(0)}×${height.toFixed(0)}mm | Efficiency: ${sheet.efficiency.toFixed(1)}%`;
   }
 
-  // Add labels if enabled
-  if (showLabels) {
-    for (const packedPiece of packed.pieces) {
-      const centroid = calculatePolygonCentroid(packedPiece.piece.polygon);
-      const label = generateGridLabel(packedPiece.originalPiece);
+  if (packed.mode === 'roll') {
+    return `${colorName} - ${sheet.pieces.length} pieces | Bolt: ${packed.sheetHeight.toFixed(0)}mm wide, ${packed.sheetWidth.toFixed(0)}mm used (${formatFabricLength(packed.sheetWidth)}) | Efficiency: ${sheet.efficiency.toFixed(1)}%`;
+  }
 
-      // Calculate transformed centroid position
-      const rad = (packedPiece.rotation * Math.PI) / 180;
-      const cos = Math.cos(rad);
-      const sin = Math.sin(rad);
-      const labelX = packedPiece.x + centroid.x * cos - centroid.y * sin;
-      const labelY = packedPiece.y + centroid.x * sin + centroid.y * cos;
+  // Remnants come first and are not numbered with the fresh sheets
+  const remnants = packed.sheets.filter(s => s.remnant).length;
+  return `${colorName} - Sheet ${index - remnants + 1} of ${packed.sheets.length - remnants} - ${sheet.pieces.length} pieces | Sheet: ${packed.sheetWidth.toFixed(0)}×${packed.sheetHeight.toFixed(0)}mm, ${sheet.usedLength.toFixed(0)}mm used | Efficiency: ${sheet.efficiency.toFixed(1)}%`;
+}
 
-      svg += `    <text x="${labelX.toFixed(3)}" y="${labelY.toFixed(3)}" font-family="Arial, sans-serif" font-size="8" fill="black" text-anchor="middle" dominant-baseline="middle">${label}</text>\n`;
-    }
+/**
+ * Vertical space reserved under each sheet for its caption
+ */
+const SHEET_CAPTION_HEIGHT = 30;
+
+/**
+ * Size of the fabric a sheet is cut from: the sheet (in roll mode the used
+ * length of the bolt), or the remnant's bounding box
+ */
+export function sheetSize(packed: PackedResult, sheet: PackedSheet): { width: number; height: number } {
+  return sheet.remnant ? remnantSize(sheet.remnant) : { width: packed.sheetWidth, height: packed.sheetHeight };
+}
+
+/**
+ * Outline of the fabric a sheet is cut from, followed by any holes in it
+ */
+export function sheetBoundary(packed: PackedResult, sheet: PackedSheet): Polygon[] {
+  return sheet.remnant
+    ? [sheet.remnant.outline, ...sheet.remnant.holes]
+    : [createRectangle(0, 0, packed.sheetWidth, packed.sheetHeight)];
+}
+
+/**
+ * Stack sheets top to bottom with `gap` mm below each: the top edge of every
+ * sheet, and the width and height of the whole stack (last gap included)
+ */
+export function stackSheets(
+  packed: PackedResult,
+  sheets: PackedSheet[],
+  gap: number
+): { offsets: number[]; width: number; height: number } {
+  const offsets: number[] = [];
+  let height = 0;
+  let width = 0;
+
+  for (const sheet of sheets) {
+    const size = sheetSize(packed, sheet);
+    offsets.push(height);
+    height += size.height + gap;
+    width = Math.max(width, size.width);
   }
 
-  // Add metadata
-  svg += `    <text x="5" y="${packed.sheetHeight + 20}" font-family="Arial" font-size="10" fill="black">
-      ${colorName} - ${packed.pieces.length} pieces | Sheet: ${packed.sheetWidth.toFixed(0)}×${packed.sheetHeight.toFixed(0)}mm | Efficiency: ${packed.efficiency.toFixed(1)}%
-    </text>
+  return { offsets, width, height };
+}
+
+/**
+ * The sheet of generatePackedSVG's stack that a height (mm below the top of
+ * the first sheet) falls on, captions included, and that sheet's top edge.
+ * Null above the first sheet or below the last.
+ */
+export function sheetAtHeight(packed: PackedResult, y: number): { sheet: number; top: number } | null {
+  const { offsets } = stackSheets(packed, packed.sheets, SHEET_CAPTION_HEIGHT);
+  const sheet = offsets.findIndex((top, index) =>
+    y >= top && y < top + sheetSize(packed, packed.sheets[index]).height + SHEET_CAPTION_HEIGHT
+  );
+  return sheet >= 0 ? { sheet, top: offsets[sheet] } : null;
+}
+
+/**
+ * Outlines drawn over the pieces of a sheet being adjusted by hand
+ */
+function highlightOutlines(sheet: PackedSheet, selectedPieceId: string | undefined, conflictPieceIds: Set<string> | undefined, indent: string): string {
+  let content = '';
+  for (const packedPiece of sheet.pieces) {
+    const id = packedPiece.piece.id;
+    const className = conflictPieceIds?.has(id) ? 'conflict-outline' : id === selectedPieceId ? 'selected-outline' : null;
+    if (!className) continue;
+    const transform = `translate(${packedPiece.x.toFixed(3)}, ${packedPiece.y.toFixed(3)}) rotate(${packedPiece.rotation})`;
+    content += `${indent}<path class="${className}" transform="${transform}" d="${polygonToPath(packedPiece.piece.polygon)}"/>
+`;
+  }
+  return content;
+}
+
+/**
+ * SVG element outlining the fabric of one sheet
+ */
+function sheetBoundaryElement(packed: PackedResult, sheet: PackedSheet, indent: string): string {
+  if (!sheet.remnant) {
+    return `${indent}<rect class="sheet-boundary" x="0" y="0" width="${packed.sheetWidth}" height="${packed.sheetHeight}"/>\n`;
+  }
+  return `${indent}<path class="sheet-boundary" d="${sheetBoundary(packed, sheet).map(polygonToPath).join(' ')}"/>\n`;
+}
+
+/**
+ * Generate SVG for packed layout
+ * Shows both original pieces (sewing lines) and offset pieces (cutting lines)
+ * All sheets are stacked vertically in one file, each in its own <g id="sheet-N"> group
+ */
+export function generatePackedSVG(
+  packed: PackedResult,
+  colorName: string,
+  options: PackedSVGOptions = {}
+): string {
+  const { padding = 10, units = 'mm', profile = DEFAULT_MACHINE_PROFILE, showLabels = true, showSewingLines = true, showGrainlines = true, notchStyle = 'none', selectedPieceId, conflictPieceIds } = options;
+  const highlighting = selectedPieceId !== undefined || (conflictPieceIds?.size ?? 0) > 0;
+
+  const stack = stackSheets(packed, packed.sheets, SHEET_CAPTION_HEIGHT);
+  const width = (packed.sheets.length > 0 ? stack.width : packed.sheetWidth) + padding * 2;
+  const height = (packed.sheets.length > 0 ? stack.height : packed.sheetHeight + SHEET_CAPTION_HEIGHT) + padding * 2;
+
+  let svg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}${units}" height="${height}${units}" viewBox="0 0 ${width} ${height}">
+${packedSVGStyles(profile)}${highlighting ? HIGHLIGHT_STYLES : ''}  <g transform="translate(${padding}, ${padding})">
 `;
 
+  packed.sheets.forEach((sheet, index) => {
+    svg += `    <g id="sheet-${index + 1}" transform="translate(0, ${stack.offsets[index]})">
+      <!-- Sheet boundary -->
+`;
+    svg += sheetBoundaryElement(packed, sheet, '      ');
+    svg += renderSheetContents(sheet, { labels: showLabels, sewingLines: showSewingLines, grainlines: showGrainlines, notches: notchStyle }, '      ', profile.kerf);
+    if (highlighting) {
+      svg += highlightOutlines(sheet, selectedPieceId, conflictPieceIds, '      ');
+    }
+    svg += `      <text x="5" y="${sheetSize(packed, sheet).height + 20}" font-family="Arial" font-size="10" fill="black">
+        ${describeSheet(packed, index, colorName)}
+      </text>
+    </g>
+`;
+  });
+
   svg += `  </g>
 </svg>`;
 
   return svg;
 }
+
+/**
+ * Generate one standalone SVG per sheet, in sheet order
+ */
+export function generatePackedSheetSVGs(
+  packed: PackedResult,
+  colorName: string,
+  options: PackedSVGOptions = {}
+): string[] {
+  const { padding = 10, units = 'mm', profile = DEFAULT_MACHINE_PROFILE, showLabels = true, showSewingLines = true, showGrainlines = true, notchStyle = 'none' } = options;
+
+  return packed.sheets.map((sheet, index) => {
+    const size = sheetSize(packed, sheet);
+    const width = size.width + padding * 2;
+    const height = size.height + SHEET_CAPTION_HEIGHT + padding * 2;
+
+    let svg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}${units}" height="${height}${units}" viewBox="0 0 ${width} ${height}">
+${packedSVGStyles(profile)}  <g transform="translate(${padding}, ${padding})">
+    <!-- Sheet boundary -->
+`;
+    svg += sheetBoundaryElement(packed, sheet, '    ');
+    svg += renderSheetContents(sheet, { labels: showLabels, sewingLines: showSewingLines, grainlines: showGrainlines, notches: notchStyle }, '    ', profile.kerf);
+
+    // Add metadata
+    svg += `    <text x="5" y="${size.height + 20}" font-family="Arial" font-size="10" fill="black">
+      ${describeSheet(packed, index, colorName)}
+    </text>
+`;
+
+    svg += `  </g>
+</svg>`;
+
+    return svg;
+  });
+}
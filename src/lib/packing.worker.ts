@@ -0,0 +1,16 @@
+import { nestPieces, NestingRequest, NestingResponse } from './packing';
+
+/**
+ * Nesting worker: runs any-nest off the main thread for packPolygons, which
+ * stops it by terminating the worker
+ */
+const post = (message: NestingResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<NestingRequest>) => {
+  const { pieces, settings } = event.data;
+  try {
+    nestPieces(pieces, settings, post);
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+};
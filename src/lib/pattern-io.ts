@@ -1,10 +1,11 @@
 import { TessellationConfig, TessellationResult, TessellationPiece } from './types';
+import { downloadBlob } from './download';
 
 /**
  * Version of the save format
  * Increment this when making breaking changes to the save format
  */
-export const PATTERN_FORMAT_VERSION = '1.0.0';
+export const PATTERN_FORMAT_VERSION = '1.9.0';
 
 /**
  * Saved pattern format
@@ -13,6 +14,7 @@ export interface SavedPattern {
   version: string;
   config: TessellationConfig;
   palette: string[];
+  directionalColors?: boolean[]; // per palette entry: fabric has a nap or one-way print (added in 1.2.0)
   pieces: TessellationPiece[];
   bounds: {
     width: number;
@@ -26,16 +28,19 @@ export interface SavedPattern {
 
 /**
  * Save a tessellation pattern to JSON
+ * The config carries the seed, so the layout can also be regenerated from it
  */
 export function savePattern(
   tessellation: TessellationResult,
   palette: string[],
+  directionalColors: boolean[] = [],
   name?: string
 ): SavedPattern {
   return {
     version: PATTERN_FORMAT_VERSION,
     config: tessellation.config,
     palette,
+    directionalColors: palette.map((_, i) => directionalColors[i] ?? false),
     pieces: tessellation.pieces,
     bounds: tessellation.bounds,
     metadata: {
@@ -62,7 +67,7 @@ export function loadPattern(data: unknown): SavedPattern {
     throw new Error('Invalid pattern file: missing version information');
   }
 
-  // For now, we only support version 1.0.0
+  // Only 1.x.x is supported; minor versions only add optional fields
   // In the future, we can add migration logic here
   if (!pattern.version.startsWith('1.')) {
     throw new Error(`Incompatible pattern version: ${pattern.version}. This app supports version 1.x.x`);
@@ -81,19 +86,10 @@ export function loadPattern(data: unknown): SavedPattern {
  */
 export function downloadPattern(pattern: SavedPattern, filename?: string): void {
   const json = JSON.stringify(pattern, null, 2);
-  const blob = new Blob([json], { type: 'application/json' });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
 
   // Generate filename with timestamp if not provided
   const defaultName = `tessellation-${new Date().toISOString().split('T')[0]}.json`;
-  link.download = filename || pattern.metadata.name || defaultName;
-
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  downloadBlob(new Blob([json], { type: 'application/json' }), filename || pattern.metadata.name || defaultName);
 }
 
 /**
@@ -0,0 +1,207 @@
+import { Point } from './types';
+import { downloadBlob } from './download';
+
+/**
+ * PDF points per millimetre
+ */
+const PT_PER_MM = 72 / 25.4;
+
+/**
+ * Bezier handle length for approximating a quarter circle
+ */
+const KAPPA = 0.5522847498;
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(3);
+}
+
+/**
+ * Escape a string for a PDF literal string. Only ASCII is supported by the
+ * standard Helvetica encoding we use, so anything else becomes '?'
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+/**
+ * Parse a #rrggbb color into PDF 0-1 components
+ */
+function parseColor(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map(c => c / 255) as [number, number, number];
+}
+
+/**
+ * Drawing surface for one PDF page, in millimetres with y pointing down
+ * (the same space as our SVGs), converted to PDF points on output
+ */
+export class PDFPage {
+  readonly width: number;
+  readonly height: number;
+  private ops: string[] = [];
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    // Flip into a y-down, millimetre coordinate system
+    // (full precision here: templates must print at exactly 1:1)
+    this.ops.push(`${PT_PER_MM.toFixed(6)} 0 0 ${(-PT_PER_MM).toFixed(6)} 0 ${(height * PT_PER_MM).toFixed(6)} cm`);
+  }
+
+  save(): void {
+    this.ops.push('q');
+  }
+
+  restore(): void {
+    this.ops.push('Q');
+  }
+
+  translate(x: number, y: number): void {
+    this.ops.push(`1 0 0 1 ${formatNumber(x)} ${formatNumber(y)} cm`);
+  }
+
+  /**
+   * Restrict further drawing to a rectangle (until the next restore)
+   */
+  clipRect(x: number, y: number, width: number, height: number): void {
+    this.ops.push(`${formatNumber(x)} ${formatNumber(y)} ${formatNumber(width)} ${formatNumber(height)} re W n`);
+  }
+
+  setStrokeColor(hex: string): void {
+    this.ops.push(`${parseColor(hex).map(formatNumber).join(' ')} RG`);
+  }
+
+  setFillColor(hex: string): void {
+    this.ops.push(`${parseColor(hex).map(formatNumber).join(' ')} rg`);
+  }
+
+  setLineWidth(width: number): void {
+    this.ops.push(`${formatNumber(width)} w`);
+  }
+
+  /**
+   * Dash pattern in mm, pass an empty array for a solid line
+   */
+  setDash(pattern: number[]): void {
+    this.ops.push(`[${pattern.map(formatNumber).join(' ')}] 0 d`);
+  }
+
+  polygon(points: Point[], closed: boolean = true): void {
+    if (points.length === 0) return;
+
+    const [first, ...rest] = points;
+    let path = `${formatNumber(first.x)} ${formatNumber(first.y)} m`;
+    for (const point of rest) {
+      path += ` ${formatNumber(point.x)} ${formatNumber(point.y)} l`;
+    }
+    this.ops.push(path + (closed ? ' h S' : ' S'));
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number): void {
+    this.ops.push(`${formatNumber(x1)} ${formatNumber(y1)} m ${formatNumber(x2)} ${formatNumber(y2)} l S`);
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: boolean = false): void {
+    this.ops.push(`${formatNumber(x)} ${formatNumber(y)} ${formatNumber(width)} ${formatNumber(height)} re ${fill ? 'f' : 'S'}`);
+  }
+
+  circle(cx: number, cy: number, r: number): void {
+    const k = r * KAPPA;
+    const f = formatNumber;
+    this.ops.push([
+      `${f(cx + r)} ${f(cy)} m`,
+      `${f(cx + r)} ${f(cy + k)} ${f(cx + k)} ${f(cy + r)} ${f(cx)} ${f(cy + r)} c`,
+      `${f(cx - k)} ${f(cy + r)} ${f(cx - r)} ${f(cy + k)} ${f(cx - r)} ${f(cy)} c`,
+      `${f(cx - r)} ${f(cy - k)} ${f(cx - k)} ${f(cy - r)} ${f(cx)} ${f(cy - r)} c`,
+      `${f(cx + k)} ${f(cy - r)} ${f(cx + r)} ${f(cy - k)} ${f(cx + r)} ${f(cy)} c`,
+      'S',
+    ].join(' '));
+  }
+
+  /**
+   * Draw text with its baseline at y. Size is the font size in mm.
+   * Centred text uses an approximate Helvetica width, which is close enough for labels.
+   */
+  text(x: number, y: number, size: number, text: string, align: 'left' | 'center' = 'left'): void {
+    const startX = align === 'center' ? x - text.length * size * 0.25 : x;
+    // Flip the text matrix back so glyphs are upright in our y-down space
+    this.ops.push(`BT /F1 1 Tf ${formatNumber(size)} 0 0 ${formatNumber(-size)} ${formatNumber(startX)} ${formatNumber(y)} Tm (${escapeText(text)}) Tj ET`);
+  }
+
+  get content(): string {
+    return this.ops.join('\n');
+  }
+}
+
+/**
+ * Minimal vector PDF writer: pages of line art and Helvetica text.
+ * Enough for print templates without pulling in a PDF library.
+ */
+export class PDFDocument {
+  private pages: PDFPage[] = [];
+
+  addPage(width: number, height: number): PDFPage {
+    const page = new PDFPage(width, height);
+    this.pages.push(page);
+    return page;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Serialize the document. The output is pure ASCII, so string length equals byte length.
+   */
+  toString(): string {
+    const objects: string[] = [];
+    const pageIds: number[] = [];
+
+    // Object ids: 1 catalog, 2 page tree, 3 font, then a page + content stream pair per page
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((page, index) => {
+      const pageId = 4 + index * 2;
+      const contentId = pageId + 1;
+      pageIds.push(pageId);
+
+      const width = (page.width * PT_PER_MM).toFixed(6);
+      const height = (page.height * PT_PER_MM).toFixed(6);
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${contentId} 0 R >>`;
+
+      const content = page.content;
+      objects[contentId] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return output;
+  }
+}
+
+/**
+ * Download helper for browser
+ */
+export function downloadPDF(pdf: string, filename: string): void {
+  downloadBlob(new Blob([pdf], { type: 'application/pdf' }), filename);
+}
@@ -0,0 +1,331 @@
+import { Polygon, Point, TessellationPiece, SeamJoin } from './types';
+import { calculateBounds, transformPolygon, calculatePolygonCentroid } from './geometry';
+import { PackedResult, generateGridLabel, stackSheets } from './packing';
+import { PDFDocument, PDFPage } from './pdf';
+import { pieceCutLine, SeamOptions } from './tessellation';
+
+export type PaperSize = 'letter' | 'a4';
+
+/**
+ * Paper sizes in mm (portrait)
+ */
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number; label: string }> = {
+  letter: { width: 215.9, height: 279.4, label: 'US Letter' },
+  a4: { width: 210, height: 297, label: 'A4' },
+};
+
+export interface PrintTemplateOptions {
+  paperSize?: PaperSize;
+  margin?: number; // unprintable border on every side, in mm
+  overlap?: number; // content repeated on neighbouring pages for taping, in mm
+  showSewingLines?: boolean;
+  showLabels?: boolean;
+  boundaryAllowance?: number; // for unpacked pieces, on edges along the outside of the quilt (default: the seam allowance)
+  seamJoin?: SeamJoin; // corner style of the cut lines for unpacked pieces (default 'miter')
+  miterLimit?: number; // as a multiple of the seam allowance
+}
+
+/**
+ * A piece ready to print, in layout mm (y down)
+ */
+interface TemplateShape {
+  cut: Polygon;
+  sewing: Polygon;
+  label: string;
+  labelPoint: Point;
+}
+
+interface TemplateLayout {
+  shapes: TemplateShape[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Gap between stacked sheets, or between pieces laid out from a color group, in mm
+ */
+const LAYOUT_GAP = 10;
+
+const REGISTRATION_MARK_RADIUS = 3;
+const LABEL_SIZE = 4;
+
+/**
+ * Use a packed layout as-is, stacking its sheets vertically
+ */
+function layoutFromPacked(packed: PackedResult): TemplateLayout {
+  const shapes: TemplateShape[] = [];
+  const stack = stackSheets(packed, packed.sheets, LAYOUT_GAP);
+
+  packed.sheets.forEach((sheet, index) => {
+    const originY = stack.offsets[index];
+
+    for (const packedPiece of sheet.pieces) {
+      const { x, y, rotation } = packedPiece;
+      const [labelPoint] = transformPolygon([calculatePolygonCentroid(packedPiece.piece.polygon)], x, y + originY, rotation);
+
+      shapes.push({
+        cut: transformPolygon(packedPiece.piece.polygon, x, y + originY, rotation),
+        sewing: transformPolygon(packedPiece.originalPiece.polygon, x, y + originY, rotation),
+        label: generateGridLabel(packedPiece.originalPiece),
+        labelPoint,
+      });
+    }
+  });
+
+  return {
+    shapes,
+    width: packed.sheets.length > 0 ? stack.width : packed.sheetWidth,
+    height: Math.max(stack.height - LAYOUT_GAP, 0),
+  };
+}
+
+/**
+ * Lay unpacked pieces (e.g. a group from groupByColor) out in simple shelves.
+ * Rows are one page wide where possible so most pieces print without taping.
+ */
+function layoutFromPieces(
+  pieces: TessellationPiece[],
+  seamAllowance: number,
+  rowWidth: number,
+  seamOptions: SeamOptions = {}
+): TemplateLayout {
+  const shapes: TemplateShape[] = [];
+  let cursorX = 0;
+  let cursorY = 0;
+  let shelfHeight = 0;
+  let width = 0;
+
+  for (const piece of pieces) {
+    const cut = pieceCutLine(piece, seamAllowance, seamOptions);
+    const bounds = calculateBounds([cut]);
+    const pieceWidth = bounds.maxX - bounds.minX;
+    const pieceHeight = bounds.maxY - bounds.minY;
+
+    // Start a new shelf when this piece would overflow the row
+    if (cursorX > 0 && cursorX + pieceWidth > rowWidth) {
+      cursorX = 0;
+      cursorY += shelfHeight + LAYOUT_GAP;
+      shelfHeight = 0;
+    }
+
+    const dx = cursorX - bounds.minX;
+    const dy = cursorY - bounds.minY;
+    const move = (polygon: Polygon) => transformPolygon(polygon, dx, dy, 0);
+
+    shapes.push({
+      cut: move(cut),
+      sewing: move(piece.polygon),
+      label: generateGridLabel(piece),
+      labelPoint: move([calculatePolygonCentroid(piece.polygon)])[0],
+    });
+
+    cursorX += pieceWidth + LAYOUT_GAP;
+    shelfHeight = Math.max(shelfHeight, pieceHeight);
+    width = Math.max(width, cursorX - LAYOUT_GAP);
+  }
+
+  return { shapes, width, height: cursorY + shelfHeight };
+}
+
+/**
+ * Page name in the tile grid: rows are letters, columns are numbers (A1, A2, B1...)
+ */
+function tileName(row: number, col: number): string {
+  let letters = '';
+  let n = row;
+  do {
+    letters = String.fromCharCode(65 + (n % 26)) + letters;
+    n = Math.floor(n / 26) - 1;
+  } while (n >= 0);
+  return `${letters}${col + 1}`;
+}
+
+/**
+ * Crosshair-in-circle mark, drawn in content space so it lands on every page that shows it
+ */
+function drawRegistrationMark(page: PDFPage, x: number, y: number): void {
+  const r = REGISTRATION_MARK_RADIUS;
+  page.circle(x, y, r);
+  page.line(x - r * 1.6, y, x + r * 1.6, y);
+  page.line(x, y - r * 1.6, x, y + r * 1.6);
+}
+
+/**
+ * Cover page: calibration squares, instructions and a map of the tiled pages
+ */
+function drawCoverPage(
+  page: PDFPage,
+  title: string,
+  paperLabel: string,
+  tileRows: number,
+  tileCols: number,
+  margin: number,
+  overlap: number
+): void {
+  const left = margin + 5;
+  let y = margin + 10;
+
+  page.setFillColor('#000000');
+  page.text(left, y, 7, title);
+  y += 10;
+  page.text(left, y, 3.5, `Sewing templates at 1:1 scale on ${paperLabel}, ${tileRows * tileCols} page(s) in ${tileRows} row(s) x ${tileCols} column(s).`);
+  y += 6;
+  page.text(left, y, 3.5, 'Print at 100% / "Actual size" with no scaling, then measure the squares below.');
+  y += 10;
+
+  // Calibration squares
+  page.setStrokeColor('#000000');
+  page.setLineWidth(0.3);
+  page.setDash([]);
+  page.rect(left, y, 25.4, 25.4);
+  page.text(left, y + 25.4 + 5, 3.5, '1 inch');
+  page.rect(left + 40, y, 25, 25);
+  page.text(left + 40, y + 25 + 5, 3.5, '25 mm');
+  y += 25.4 + 15;
+
+  const steps = [
+    'Trim or fold the left and top margins of each page except the first row/column.',
+    `Overlap neighbouring pages by ${overlap} mm so the registration marks line up, then tape.`,
+    'Solid lines are cut lines, dashed lines are sewing lines.',
+  ];
+  steps.forEach((step, index) => {
+    page.text(left, y, 3.5, `${index + 1}. ${step}`);
+    y += 6;
+  });
+  y += 6;
+
+  // Page map
+  page.text(left, y, 4.5, 'Page layout');
+  y += 4;
+  const mapWidth = page.width - left * 2;
+  const cellSize = Math.min(mapWidth / tileCols, (page.height - y - margin - 5) / tileRows, 20);
+  for (let row = 0; row < tileRows; row++) {
+    for (let col = 0; col < tileCols; col++) {
+      const cellX = left + col * cellSize;
+      const cellY = y + row * cellSize;
+      page.rect(cellX, cellY, cellSize, cellSize);
+      page.text(cellX + cellSize / 2, cellY + cellSize / 2 + 1, Math.min(4, cellSize / 3), tileName(row, col), 'center');
+    }
+  }
+}
+
+/**
+ * Tile a layout across pages at true scale
+ */
+function buildTemplatePDF(layout: TemplateLayout, title: string, options: PrintTemplateOptions): string {
+  const {
+    paperSize = 'letter',
+    margin = 10,
+    overlap = 10,
+    showSewingLines = true,
+    showLabels = true,
+  } = options;
+  const paper = PAPER_SIZES[paperSize];
+
+  const printableWidth = paper.width - margin * 2;
+  const printableHeight = paper.height - margin * 2;
+  const stepX = printableWidth - overlap;
+  const stepY = printableHeight - overlap;
+
+  const tileCols = Math.max(1, Math.ceil((layout.width - overlap) / stepX));
+  const tileRows = Math.max(1, Math.ceil((layout.height - overlap) / stepY));
+  const tileCount = tileRows * tileCols;
+
+  const doc = new PDFDocument();
+  drawCoverPage(doc.addPage(paper.width, paper.height), title, paper.label, tileRows, tileCols, margin, overlap);
+
+  for (let row = 0; row < tileRows; row++) {
+    for (let col = 0; col < tileCols; col++) {
+      const page = doc.addPage(paper.width, paper.height);
+      const originX = col * stepX;
+      const originY = row * stepY;
+
+      // Content, clipped to the printable area
+      page.save();
+      page.clipRect(margin, margin, printableWidth, printableHeight);
+      page.translate(margin - originX, margin - originY);
+
+      page.setStrokeColor('#000000');
+      for (const shape of layout.shapes) {
+        if (showSewingLines) {
+          page.setLineWidth(0.2);
+          page.setDash([2, 1.5]);
+          page.polygon(shape.sewing);
+        }
+        page.setLineWidth(0.35);
+        page.setDash([]);
+        page.polygon(shape.cut);
+      }
+
+      if (showLabels) {
+        page.setFillColor('#000000');
+        for (const shape of layout.shapes) {
+          page.text(shape.labelPoint.x, shape.labelPoint.y + LABEL_SIZE / 3, LABEL_SIZE, shape.label, 'center');
+        }
+      }
+
+      // Registration marks sit in the middle of every overlap band, so they appear on both pages
+      page.setStrokeColor('#E74C3C');
+      page.setLineWidth(0.2);
+      page.setDash([]);
+      for (let markRow = 0; markRow <= tileRows; markRow++) {
+        for (let markCol = 0; markCol <= tileCols; markCol++) {
+          drawRegistrationMark(page, markCol * stepX + overlap / 2, markRow * stepY + overlap / 2);
+        }
+      }
+      page.restore();
+
+      // Overlap bands on sides that meet another page
+      page.setStrokeColor('#999999');
+      page.setLineWidth(0.15);
+      page.setDash([1, 1]);
+      if (col > 0) page.line(margin + overlap, margin, margin + overlap, margin + printableHeight);
+      if (row > 0) page.line(margin, margin + overlap, margin + printableWidth, margin + overlap);
+      if (col < tileCols - 1) page.line(margin + stepX, margin, margin + stepX, margin + printableHeight);
+      if (row < tileRows - 1) page.line(margin, margin + stepY, margin + printableWidth, margin + stepY);
+
+      // Printable area outline
+      page.setStrokeColor('#CCCCCC');
+      page.setDash([]);
+      page.rect(margin, margin, printableWidth, printableHeight);
+
+      // Title, page coordinates and a 25 mm scale bar in the margins
+      const footerY = paper.height - margin / 2 + 1;
+      page.setFillColor('#000000');
+      page.text(margin, margin / 2 + 1, 3, title);
+      page.text(margin, footerY, 3, `Page ${tileName(row, col)} (row ${row + 1}, col ${col + 1}) - ${row * tileCols + col + 1} of ${tileCount} - origin ${originX.toFixed(0)}, ${originY.toFixed(0)} mm`);
+
+      const barX = paper.width - margin - 25;
+      page.setStrokeColor('#000000');
+      page.setLineWidth(0.3);
+      page.line(barX, footerY, barX + 25, footerY);
+      page.line(barX, footerY - 1.5, barX, footerY);
+      page.line(barX + 25, footerY - 1.5, barX + 25, footerY);
+      page.text(barX + 12.5, footerY - 1.5, 2.5, '25 mm', 'center');
+    }
+  }
+
+  return doc.toString();
+}
+
+/**
+ * Generate a print-at-home PDF of a packed layout, tiled across pages at 1:1 scale
+ */
+export function generatePackedTemplatePDF(packed: PackedResult, title: string, options: PrintTemplateOptions = {}): string {
+  return buildTemplatePDF(layoutFromPacked(packed), title, options);
+}
+
+/**
+ * Generate a print-at-home PDF for a group of pieces (e.g. one color from groupByColor).
+ * Pieces are given their seam allowance and laid out in page-wide rows.
+ */
+export function generatePiecesTemplatePDF(
+  pieces: TessellationPiece[],
+  seamAllowance: number,
+  title: string,
+  options: PrintTemplateOptions = {}
+): string {
+  const { paperSize = 'letter', margin = 10, overlap = 10, boundaryAllowance, seamJoin, miterLimit } = options;
+  const rowWidth = PAPER_SIZES[paperSize].width - margin * 2 - overlap;
+  return buildTemplatePDF(layoutFromPieces(pieces, seamAllowance, rowWidth, { boundaryAllowance, join: seamJoin, miterLimit }), title, options);
+}
@@ -0,0 +1,32 @@
+/**
+ * A source of uniformly distributed numbers in [0, 1), same contract as Math.random
+ */
+export type RandomFn = () => number;
+
+/**
+ * Largest seed value we generate (fits in an unsigned 32-bit integer)
+ */
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Create a deterministic PRNG from a numeric seed (mulberry32)
+ * The same seed always produces the same sequence of numbers
+ */
+export function createRandom(seed: number): RandomFn {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Pick a fresh random seed for a new design
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
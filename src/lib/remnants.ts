@@ -0,0 +1,213 @@
+import { Polygon } from './types';
+import { calculateBounds, calculatePolygonArea, calculatePolygonPerimeter, offsetPolygon, pointInPolygon, signedArea, transformPolygon } from './geometry';
+import { differencePolygons, fitRegion, intersectPolygons } from './clipper';
+import { parseSVGShapes, readTextFile } from './garment';
+
+/**
+ * Leftover fabric kept for later cuts, in mm with the bounding box of its
+ * outline starting at (0, 0)
+ */
+export interface Remnant {
+  id: string;
+  name: string;
+  color?: string; // fabric color (hex); remnants without one are offered to every color
+  outline: Polygon;
+  holes: Polygon[]; // areas already cut out, inside the outline
+}
+
+/**
+ * Offcuts smaller than this are not worth keeping, in mm²
+ */
+export const MIN_REMNANT_AREA = 2500;
+
+/**
+ * Narrowest offcut worth keeping, as its mean width (2 × area / perimeter) in mm.
+ * Keeps the slivers left between packed pieces out of the library.
+ */
+export const MIN_REMNANT_WIDTH = 20;
+
+/**
+ * Positions closer than this along x count as equally far left, in mm
+ */
+const POSITION_TOLERANCE = 0.01;
+
+/**
+ * How far a part may overlap an obstacle and still count as touching it, in mm.
+ * Fit regions are worked out on clipper's µm grid.
+ */
+const FIT_TOLERANCE = 0.01;
+
+const REMNANTS_STORAGE_KEY = 'remnants';
+
+let remnantCount = 0;
+
+const isPolygon = (value: unknown): value is Polygon =>
+  Array.isArray(value) && value.every(point => typeof point?.x === 'number' && typeof point?.y === 'number');
+
+/**
+ * Remnants saved in the browser
+ */
+export function loadRemnants(): Remnant[] {
+  try {
+    const stored = localStorage.getItem(REMNANTS_STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    if (Array.isArray(parsed)) {
+      return parsed.filter((remnant): remnant is Remnant =>
+        typeof remnant?.id === 'string' && typeof remnant?.name === 'string' &&
+        isPolygon(remnant.outline) && Array.isArray(remnant.holes) && remnant.holes.every(isPolygon)
+      );
+    }
+  } catch {
+    // Unreadable storage: start with an empty library
+  }
+  return [];
+}
+
+export function saveRemnants(remnants: Remnant[]): void {
+  localStorage.setItem(REMNANTS_STORAGE_KEY, JSON.stringify(remnants));
+}
+
+/**
+ * New remnant, moved so its outline's bounding box starts at (0, 0)
+ */
+export function createRemnant(name: string, outline: Polygon, holes: Polygon[] = [], color?: string): Remnant {
+  const bounds = calculateBounds([outline]);
+  const normalize = (polygon: Polygon) => transformPolygon(polygon, -bounds.minX, -bounds.minY, 0);
+
+  return {
+    id: `remnant-${Date.now().toString(36)}-${remnantCount++}`,
+    name,
+    ...(color ? { color } : {}),
+    outline: normalize(outline),
+    holes: holes.map(normalize),
+  };
+}
+
+/**
+ * Fabric area of a remnant, holes excluded, in mm²
+ */
+export function remnantArea(remnant: Remnant): number {
+  return calculatePolygonArea(remnant.outline) - remnant.holes.reduce((sum, hole) => sum + calculatePolygonArea(hole), 0);
+}
+
+/**
+ * Width and height of a remnant's bounding box, in mm
+ */
+export function remnantSize(remnant: Remnant): { width: number; height: number } {
+  const bounds = calculateBounds([remnant.outline]);
+  return { width: bounds.maxX, height: bounds.maxY };
+}
+
+/**
+ * Remnants worth keeping from the waste of a packed sheet. The waste comes
+ * from clipper, so outlines and holes wind in opposite directions; each hole
+ * belongs to the smallest outline around it.
+ */
+export function remnantsFromWaste(waste: Polygon[], name: string, color?: string): Remnant[] {
+  if (waste.length === 0) return [];
+
+  const largest = waste.reduce((best, polygon) => (calculatePolygonArea(polygon) > calculatePolygonArea(best) ? polygon : best));
+  const outerSign = Math.sign(signedArea(largest));
+  const outers = waste
+    .filter(polygon => Math.sign(signedArea(polygon)) === outerSign)
+    .map(outline => ({ outline, holes: [] as Polygon[] }));
+
+  for (const hole of waste.filter(polygon => Math.sign(signedArea(polygon)) !== outerSign)) {
+    const around = outers
+      .filter(outer => pointInPolygon(hole[0], outer.outline))
+      .sort((a, b) => calculatePolygonArea(a.outline) - calculatePolygonArea(b.outline))[0];
+    around?.holes.push(hole);
+  }
+
+  const kept = outers.filter(({ outline, holes }) => {
+    const area = calculatePolygonArea(outline) - holes.reduce((sum, hole) => sum + calculatePolygonArea(hole), 0);
+    const perimeter = [outline, ...holes].reduce((sum, polygon) => sum + calculatePolygonPerimeter(polygon), 0);
+    return area >= MIN_REMNANT_AREA && (2 * area) / perimeter >= MIN_REMNANT_WIDTH;
+  });
+
+  return kept.map(({ outline, holes }, index) =>
+    createRemnant(kept.length > 1 ? `${name} ${index + 1}` : name, outline, holes, color)
+  );
+}
+
+/**
+ * Read a remnant from an SVG file: the largest shape is the outline and any
+ * shape inside it is a hole. Throws if the file has no usable outline.
+ */
+export function parseRemnantSVG(svg: string, name: string, color?: string): Remnant {
+  const shapes = parseSVGShapes(svg);
+  if (shapes.length === 0) {
+    throw new Error('No closed outline found. The SVG needs a <path>, <polygon> or <polyline> element.');
+  }
+
+  const outline = shapes.reduce((best, shape) => (calculatePolygonArea(shape) > calculatePolygonArea(best) ? shape : best));
+  const holes = shapes.filter(shape => shape !== outline && shape.every(point => pointInPolygon(point, outline)));
+  return createRemnant(name, outline, holes, color);
+}
+
+/**
+ * Upload helper for browser: read an SVG file as a remnant named after the file
+ */
+export async function uploadRemnant(file: File, color?: string): Promise<Remnant> {
+  return parseRemnantSVG(await readTextFile(file), file.name.replace(/\.svg$/i, ''), color);
+}
+
+/**
+ * Where fillRemnant put a part: rotate by `rotation` degrees about the origin, then move by (x, y)
+ */
+export interface RemnantPlacement {
+  id: string;
+  x: number;
+  y: number;
+  rotation: number;
+}
+
+/**
+ * Fill a remnant bottom-left: each part in turn goes at the left-most, then
+ * top-most, position where it fits in any of the given rotations, keeping
+ * `spacing` mm from the parts already placed. Parts that fit nowhere are left out.
+ */
+export function fillRemnant(
+  remnant: Remnant,
+  parts: { id: string; polygon: Polygon }[],
+  rotations: number[],
+  spacing: number
+): RemnantPlacement[] {
+  const placements: RemnantPlacement[] = [];
+  const obstacles = remnant.holes.map(polygon => ({ polygon, bounds: calculateBounds([polygon]) }));
+
+  // clipper2-js now and then leaves a sliver of overlapping positions in the fit
+  // region, so each candidate is checked against the remnant and the obstacles
+  const fits = (placed: Polygon) => {
+    const inner = offsetPolygon(placed, -FIT_TOLERANCE);
+    const bounds = calculateBounds([inner]);
+    return differencePolygons(inner, [remnant.outline]).length === 0 && obstacles.every(obstacle =>
+      obstacle.bounds.minX > bounds.maxX || obstacle.bounds.maxX < bounds.minX ||
+      obstacle.bounds.minY > bounds.maxY || obstacle.bounds.maxY < bounds.minY ||
+      intersectPolygons(inner, [obstacle.polygon]).length === 0
+    );
+  };
+
+  for (const part of parts) {
+    const candidates = rotations.flatMap(rotation => {
+      const rotated = transformPolygon(part.polygon, 0, 0, rotation);
+      return fitRegion(rotated, remnant.outline, obstacles.map(obstacle => obstacle.polygon))
+        .flatMap(region => region.map(point => ({ rotated, placement: { id: part.id, x: point.x, y: point.y, rotation } })));
+    });
+    candidates.sort((a, b) =>
+      Math.abs(a.placement.x - b.placement.x) > POSITION_TOLERANCE ? a.placement.x - b.placement.x : a.placement.y - b.placement.y
+    );
+
+    for (const { rotated, placement } of candidates) {
+      const placed = transformPolygon(rotated, placement.x, placement.y, 0);
+      if (!fits(placed)) continue;
+
+      const polygon = offsetPolygon(placed, spacing);
+      placements.push(placement);
+      obstacles.push({ polygon, bounds: calculateBounds([polygon]) });
+      break;
+    }
+  }
+
+  return placements;
+}
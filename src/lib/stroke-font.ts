@@ -0,0 +1,119 @@
+import { Polygon } from './types';
+
+/**
+ * Single-stroke glyphs for engraving: each stroke is an open polyline of x,y pairs
+ * on a grid GLYPH_HEIGHT units tall (y down, 0 = cap line, 6 = baseline).
+ * Lowercase letters are drawn as capitals.
+ */
+interface Glyph {
+  width: number;
+  strokes: number[][];
+}
+
+const GLYPH_HEIGHT = 6;
+
+/**
+ * Gap between neighbouring glyphs, in grid units
+ */
+const GLYPH_SPACING = 1;
+
+const O = [1, 0, 3, 0, 4, 1, 4, 5, 3, 6, 1, 6, 0, 5, 0, 1, 1, 0];
+const P = [0, 6, 0, 0, 3, 0, 4, 1, 4, 2, 3, 3, 0, 3];
+
+const GLYPHS: Record<string, Glyph> = {
+  '0': { width: 4, strokes: [O] },
+  '1': { width: 4, strokes: [[1, 1, 2, 0, 2, 6], [1, 6, 3, 6]] },
+  '2': { width: 4, strokes: [[0, 1, 1, 0, 3, 0, 4, 1, 4, 2, 0, 6, 4, 6]] },
+  '3': { width: 4, strokes: [[0, 1, 1, 0, 3, 0, 4, 1, 4, 2, 3, 3, 1, 3], [3, 3, 4, 4, 4, 5, 3, 6, 1, 6, 0, 5]] },
+  '4': { width: 4, strokes: [[3, 6, 3, 0, 0, 4, 4, 4]] },
+  '5': { width: 4, strokes: [[4, 0, 0, 0, 0, 3, 3, 3, 4, 4, 4, 5, 3, 6, 0, 6]] },
+  '6': { width: 4, strokes: [[3, 0, 1, 0, 0, 1, 0, 5, 1, 6, 3, 6, 4, 5, 4, 4, 3, 3, 0, 3]] },
+  '7': { width: 4, strokes: [[0, 0, 4, 0, 1, 6]] },
+  '8': { width: 4, strokes: [[1, 0, 3, 0, 4, 1, 4, 2, 3, 3, 1, 3, 0, 2, 0, 1, 1, 0], [1, 3, 0, 4, 0, 5, 1, 6, 3, 6, 4, 5, 4, 4, 3, 3]] },
+  '9': { width: 4, strokes: [[4, 3, 1, 3, 0, 2, 0, 1, 1, 0, 3, 0, 4, 1, 4, 5, 3, 6, 1, 6]] },
+  'A': { width: 4, strokes: [[0, 6, 0, 2, 2, 0, 4, 2, 4, 6], [0, 4, 4, 4]] },
+  'B': { width: 4, strokes: [[0, 6, 0, 0, 3, 0, 4, 1, 4, 2, 3, 3, 0, 3], [3, 3, 4, 4, 4, 5, 3, 6, 0, 6]] },
+  'C': { width: 4, strokes: [[4, 1, 3, 0, 1, 0, 0, 1, 0, 5, 1, 6, 3, 6, 4, 5]] },
+  'D': { width: 4, strokes: [[0, 0, 0, 6, 3, 6, 4, 5, 4, 1, 3, 0, 0, 0]] },
+  'E': { width: 4, strokes: [[4, 0, 0, 0, 0, 6, 4, 6], [0, 3, 3, 3]] },
+  'F': { width: 4, strokes: [[4, 0, 0, 0, 0, 6], [0, 3, 3, 3]] },
+  'G': { width: 4, strokes: [[4, 1, 3, 0, 1, 0, 0, 1, 0, 5, 1, 6, 3, 6, 4, 5, 4, 3, 2, 3]] },
+  'H': { width: 4, strokes: [[0, 0, 0, 6], [4, 0, 4, 6], [0, 3, 4, 3]] },
+  'I': { width: 2, strokes: [[0, 0, 2, 0], [1, 0, 1, 6], [0, 6, 2, 6]] },
+  'J': { width: 4, strokes: [[4, 0, 4, 5, 3, 6, 1, 6, 0, 5]] },
+  'K': { width: 4, strokes: [[0, 0, 0, 6], [4, 0, 0, 4], [1, 3, 4, 6]] },
+  'L': { width: 4, strokes: [[0, 0, 0, 6, 4, 6]] },
+  'M': { width: 4, strokes: [[0, 6, 0, 0, 2, 3, 4, 0, 4, 6]] },
+  'N': { width: 4, strokes: [[0, 6, 0, 0, 4, 6, 4, 0]] },
+  'O': { width: 4, strokes: [O] },
+  'P': { width: 4, strokes: [P] },
+  'Q': { width: 4, strokes: [O, [2, 4, 4, 6]] },
+  'R': { width: 4, strokes: [P, [2, 3, 4, 6]] },
+  'S': { width: 4, strokes: [[4, 1, 3, 0, 1, 0, 0, 1, 0, 2, 1, 3, 3, 3, 4, 4, 4, 5, 3, 6, 1, 6, 0, 5]] },
+  'T': { width: 4, strokes: [[0, 0, 4, 0], [2, 0, 2, 6]] },
+  'U': { width: 4, strokes: [[0, 0, 0, 5, 1, 6, 3, 6, 4, 5, 4, 0]] },
+  'V': { width: 4, strokes: [[0, 0, 2, 6, 4, 0]] },
+  'W': { width: 4, strokes: [[0, 0, 1, 6, 2, 3, 3, 6, 4, 0]] },
+  'X': { width: 4, strokes: [[0, 0, 4, 6], [4, 0, 0, 6]] },
+  'Y': { width: 4, strokes: [[0, 0, 2, 3, 4, 0], [2, 3, 2, 6]] },
+  'Z': { width: 4, strokes: [[0, 0, 4, 0, 0, 6, 4, 6]] },
+  '(': { width: 2, strokes: [[2, 0, 0.5, 1.5, 0.5, 4.5, 2, 6]] },
+  ')': { width: 2, strokes: [[0, 0, 1.5, 1.5, 1.5, 4.5, 0, 6]] },
+  ',': { width: 1, strokes: [[1, 5.5, 1, 6, 0, 7]] },
+  '.': { width: 1, strokes: [[0.5, 5.5, 0.5, 6]] },
+  '-': { width: 3, strokes: [[0, 3, 3, 3]] },
+  '/': { width: 3, strokes: [[0, 6, 3, 0]] },
+  ' ': { width: 2, strokes: [] },
+};
+
+/**
+ * Glyph for a character; unsupported characters become a space
+ */
+function glyphFor(char: string): Glyph {
+  return GLYPHS[char.toUpperCase()] ?? GLYPHS[' '];
+}
+
+/**
+ * Width of a line of text drawn with strokeText, in the same units as height
+ */
+export function measureStrokeText(text: string, height: number): number {
+  const chars = Array.from(text);
+  const units = chars.reduce((sum, char) => sum + glyphFor(char).width, 0) + GLYPH_SPACING * Math.max(0, chars.length - 1);
+  return (units * height) / GLYPH_HEIGHT;
+}
+
+/**
+ * Lay a line of text out as open polylines, centred on (0, 0) with y down
+ * @param height - cap height of the letters
+ */
+export function strokeText(text: string, height: number): Polygon[] {
+  const scale = height / GLYPH_HEIGHT;
+  const polylines: Polygon[] = [];
+  let cursor = -measureStrokeText(text, height) / 2;
+
+  for (const char of text) {
+    const glyph = glyphFor(char);
+    for (const stroke of glyph.strokes) {
+      const polyline: Polygon = [];
+      for (let i = 0; i + 1 < stroke.length; i += 2) {
+        polyline.push({ x: cursor + stroke[i] * scale, y: (stroke[i + 1] - GLYPH_HEIGHT / 2) * scale });
+      }
+      polylines.push(polyline);
+    }
+    cursor += (glyph.width + GLYPH_SPACING) * scale;
+  }
+
+  return polylines;
+}
+
+/**
+ * SVG path data for open polylines (strokes are not closed, unlike polygonToPath)
+ */
+export function polylinesToPath(polylines: Polygon[]): string {
+  return polylines
+    .filter(polyline => polyline.length > 0)
+    .map(polyline => polyline
+      .map((point, i) => `${i === 0 ? 'M' : 'L'} ${point.x.toFixed(3)} ${point.y.toFixed(3)}`)
+      .join(' '))
+    .join(' ');
+}
@@ -1,4 +1,8 @@
-import { Polygon, TessellationResult, TessellationPiece } from './types';
+import { Polygon, TessellationResult, TessellationPiece, Notch, NotchStyle } from './types';
+import { offsetPolygon, calculatePolygonArea, castRay } from './geometry';
+import { differencePolygons } from './clipper';
+import { MachineProfile, DEFAULT_MACHINE_PROFILE, operationStyle, profileMetadata } from './machine-profiles';
+import { downloadBlob } from './download';
 
 /**
  * Convert a polygon to SVG path data
@@ -18,6 +22,55 @@ export function polygonToPath(polygon: Polygon): string {
   return path;
 }
 
+/**
+ * Deepest a notch cuts into the seam allowance, in mm (never more than half of it)
+ */
+const NOTCH_DEPTH = 3;
+
+/**
+ * SVG path data for a cut line with registration notches. 'v' cuts a small V out
+ * of the edge, 'mark' adds a short slit running into the seam allowance.
+ * Notches on a piece without seam allowance are skipped.
+ */
+export function notchedCutPath(cut: Polygon, notches: Notch[] = [], style: NotchStyle = 'none'): string {
+  if (style === 'none' || notches.length === 0) return polygonToPath(cut);
+
+  const vCuts: Polygon[] = [];
+  let slits = '';
+
+  for (const notch of notches) {
+    // Where the notch meets the cut line
+    const { point, normal } = notch;
+    const allowance = castRay(cut, point, normal);
+    if (allowance === null) continue;
+
+    const crossing = { x: point.x + normal.x * allowance, y: point.y + normal.y * allowance };
+    const depth = Math.min(NOTCH_DEPTH, allowance / 2);
+    const tip = { x: crossing.x - normal.x * depth, y: crossing.y - normal.y * depth };
+
+    if (style === 'mark') {
+      slits += ` M ${crossing.x.toFixed(3)} ${crossing.y.toFixed(3)} L ${tip.x.toFixed(3)} ${tip.y.toFixed(3)}`;
+    } else {
+      // Start the V just outside the cut line so it opens cleanly
+      const halfWidth = depth * 0.6;
+      const outside = { x: crossing.x + normal.x * 0.5, y: crossing.y + normal.y * 0.5 };
+      vCuts.push([
+        { x: outside.x - normal.y * halfWidth, y: outside.y + normal.x * halfWidth },
+        tip,
+        { x: outside.x + normal.y * halfWidth, y: outside.y - normal.x * halfWidth },
+      ]);
+    }
+  }
+
+  if (vCuts.length === 0) return polygonToPath(cut) + slits;
+
+  const notched = differencePolygons(cut, vCuts);
+  if (notched.length === 0) return polygonToPath(cut);
+  return polygonToPath(notched.reduce((largest, candidate) =>
+    calculatePolygonArea(candidate) > calculatePolygonArea(largest) ? candidate : largest
+  ));
+}
+
 /**
  * Generate an SVG string for a single piece
  */
@@ -43,9 +96,12 @@ export function generateFullSVG(
     baseTessellation?: TessellationResult; // Original without seam allowance
     padding?: number;
     units?: string;
+    lockedPieceIds?: Set<string>; // pieces kept when regenerating, outlined on top
+    showVertices?: boolean; // draw the piece corners as handles for editing
+    selectedPieceId?: string; // piece picked for an edit, highlighted
   } = {}
 ): string {
-  const { showSeamAllowance = false, baseTessellation, padding = 10, units = 'mm' } = options;
+  const { showSeamAllowance = false, baseTessellation, padding = 10, units = 'mm', lockedPieceIds, showVertices = false, selectedPieceId } = options;
 
   // Calculate bounds based on whether we're showing seam allowance with spacing
   let width, height;
@@ -89,6 +145,10 @@ export function generateFullSVG(
     <style>
       .original-outline { fill: none; stroke: #666; stroke-width: 0.8; stroke-dasharray: 3,3; }
       .seam-piece { stroke: black; stroke-width: 0.5; fill-opacity: 0.3; }
+      .garment-outline { fill: none; stroke: #E74C3C; stroke-width: 1; pointer-events: none; }
+      .locked-outline { fill: none; stroke: #F1C40F; stroke-width: 1.5; stroke-dasharray: 4,2; pointer-events: none; }
+      .selected-outline { fill: none; stroke: #E74C3C; stroke-width: 2; pointer-events: none; }
+      .vertex-handle { fill: white; stroke: #2C3E50; stroke-width: 0.5; pointer-events: none; }
     </style>
   </defs>
   <g transform="translate(${padding}, ${padding})">
@@ -117,6 +177,9 @@ export function generateFullSVG(
       // Draw offset polygon (cutting line) with fills and spacing
       const offsetPathData = polygonToPath(offsetPiece.polygon);
       svg += `      <path id="${offsetPiece.id}" class="seam-piece" fill="${color}" d="${offsetPathData}"/>\n`;
+      if (lockedPieceIds?.has(offsetPiece.id)) {
+        svg += `      <path class="locked-outline" d="${offsetPathData}"/>\n`;
+      }
       svg += `    </g>\n`;
     }
   } else {
@@ -125,6 +188,36 @@ export function generateFullSVG(
       const color = colorPalette[piece.colorIndex] || '#cccccc';
       svg += '    ' + pieceToSVG(piece, color, true) + '\n';
     }
+
+    // Locked pieces are outlined above their neighbours so the whole outline shows
+    for (const piece of result.pieces) {
+      if (lockedPieceIds?.has(piece.id)) {
+        svg += `    <path class="locked-outline" d="${polygonToPath(piece.polygon)}"/>\n`;
+      }
+    }
+
+    // Garment block the pieces were cut to
+    if (result.outline) {
+      svg += `    <path class="garment-outline" d="${polygonToPath(result.outline)}"/>\n`;
+    }
+
+    const selected = selectedPieceId ? result.pieces.find(piece => piece.id === selectedPieceId) : undefined;
+    if (selected) {
+      svg += `    <path class="selected-outline" d="${polygonToPath(selected.polygon)}"/>\n`;
+    }
+
+    // One handle per corner, however many pieces share it
+    if (showVertices) {
+      const drawn = new Set<string>();
+      for (const piece of result.pieces) {
+        for (const point of piece.polygon) {
+          const key = `${point.x.toFixed(2)},${point.y.toFixed(2)}`;
+          if (drawn.has(key)) continue;
+          drawn.add(key);
+          svg += `    <circle class="vertex-handle" cx="${point.x.toFixed(3)}" cy="${point.y.toFixed(3)}" r="1.5"/>\n`;
+        }
+      }
+    }
   }
 
   svg += `  </g>
@@ -142,10 +235,11 @@ export function generateColorSVG(
   options: {
     padding?: number;
     units?: string;
-    strokeWidth?: number;
+    profile?: MachineProfile; // stroke color and width of the cut lines, and kerf compensation
+    notchStyle?: NotchStyle; // registration notches on the cut lines (default 'none')
   } = {}
 ): string {
-  const { padding = 10, units = 'mm', strokeWidth = 0.1 } = options;
+  const { padding = 10, units = 'mm', profile = DEFAULT_MACHINE_PROFILE, notchStyle = 'none' } = options;
 
   // Calculate bounds for these pieces
   const allPoints = pieces.flatMap(p => p.polygon);
@@ -163,9 +257,10 @@ export function generateColorSVG(
 
   let svg = `<?xml version="1.0" encoding="UTF-8"?>
 <svg xmlns="http://www.w3.org/2000/svg" width="${width}${units}" height="${height}${units}" viewBox="0 0 ${width} ${height}">
+  ${profileMetadata(profile)}
   <defs>
     <style>
-      .cut-line { fill: none; stroke: black; stroke-width: ${strokeWidth}; }
+      ${operationStyle('cut-line', profile.operations.cut)}
     </style>
   </defs>
   <g id="${fabricName}" transform="translate(${padding - minX}, ${padding - minY})">
@@ -173,7 +268,9 @@ export function generateColorSVG(
 
   // Draw all pieces as cut lines (no fill, just stroke for laser cutter)
   for (const piece of pieces) {
-    const pathData = polygonToPath(piece.polygon);
+    // Half a kerf outside the line, so the piece keeps its size
+    const cut = profile.kerf > 0 ? offsetPolygon(piece.polygon, profile.kerf / 2) : piece.polygon;
+    const pathData = notchedCutPath(cut, piece.notches, notchStyle);
     svg += `    <path id="${piece.id}" class="cut-line" d="${pathData}"/>\n`;
   }
 
@@ -193,13 +290,5 @@ export function generateColorSVG(
  * Download helper for browser
  */
 export function downloadSVG(svg: string, filename: string): void {
-  const blob = new Blob([svg], { type: 'image/svg+xml' });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = filename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), filename);
 }
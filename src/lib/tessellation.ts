@@ -1,88 +1,143 @@
-import { TessellationConfig, TessellationResult, TessellationPiece } from './types';
-import { createRectangle, splitRectangle, offsetPolygon, calculateBounds } from './geometry';
+import { TessellationConfig, TessellationResult, TessellationPiece, Polygon, Notch } from './types';
+import { splitRectangle, splitPolygon, offsetPolygon, offsetPolygonEdges, calculateBounds, calculatePolygonArea, signedArea, transformPolygon, edgeNormal, OffsetOptions } from './geometry';
+import { differencePolygons } from './clipper';
+import { generateLattice, latticeSizeToCover } from './lattice';
+import { clipPiecesToOutline } from './garment';
+import { RandomFn, createRandom } from './random';
+import { BOUNDARY_GAP, collinearOverlap, findNearbyPieces, sharedSegment } from './adjacency';
+import { assignBalancedColors, DEFAULT_COLOR_TOLERANCE } from './coloring';
 
 /**
- * Generate a brick-pattern tessellation with random color assignment,
- * variable widths, and optional splitting
+ * Grain direction for pieces that don't specify one: the lengthwise grain runs
+ * top to bottom through the quilt
  */
-export function generateTessellation(config: TessellationConfig): TessellationResult {
-  const { rows, cols, squareSize, colors, splitProbability, offsetAmount, widthVariation, heightVariation, splitAngleVariation, sameColorProbability, colorProbabilities } = config;
+export const DEFAULT_GRAINLINE = 90;
 
-  // STEP 1: Generate variable widths for each row
-  const widths: number[][] = [];
-  for (let row = 0; row < rows; row++) {
-    widths[row] = generateRowWidths(cols, squareSize, widthVariation);
-  }
+/**
+ * Get the grainline direction of a piece in degrees
+ */
+export function getGrainline(piece: TessellationPiece): number {
+  return piece.grainline ?? DEFAULT_GRAINLINE;
+}
 
-  // STEP 1b: Generate variable heights for each row
-  const heights = generateRowHeights(rows, squareSize, heightVariation);
+/**
+ * Generate a tessellation on the configured lattice (brick by default) with
+ * random color assignment, size variation, and optional splitting
+ * @param random - random source, defaults to a PRNG seeded from config.seed so
+ * the same config always produces the same layout
+ */
+export function generateTessellation(
+  config: TessellationConfig,
+  random: RandomFn = createRandom(config.seed)
+): TessellationResult {
+  const { colors, splitProbability, splitAngleVariation, sameColorProbability, colorProbabilities } = config;
+
+  const { garmentOutline } = config;
+
+  // STEP 1: Build the lattice cells (sizes and variation are applied here).
+  // With a garment outline, rows and columns are sized to cover it instead.
+  // A separate layout seed keeps the geometry while splits and colors are rerolled.
+  const outlineBounds = garmentOutline ? calculateBounds([garmentOutline]) : null;
+  const latticeConfig = outlineBounds
+    ? {
+      ...config,
+      ...latticeSizeToCover(config.tiling, config.squareSize, outlineBounds.maxX - outlineBounds.minX, outlineBounds.maxY - outlineBounds.minY),
+    }
+    : config;
+  const latticeRandom = config.layoutSeed !== undefined && config.layoutSeed !== config.seed
+    ? createRandom(config.layoutSeed)
+    : random;
+  const cells = generateLattice(latticeConfig, latticeRandom);
 
   // STEP 2: Create all polygons (without colors yet)
-  const pieces: TessellationPiece[] = [];
-
-  // Track cumulative Y position for variable heights
-  let cumulativeY = 0;
-
-  for (let row = 0; row < rows; row++) {
-    let cumulativeX = 0;
-    const height = heights[row];
-    let pieceCol = 0; // Track piece column index (increments for each piece, not grid cell)
-
-    for (let col = 0; col < cols; col++) {
-      // Calculate position with brick offset
-      const offsetX = (row % 2) * offsetAmount * squareSize;
-      const x = cumulativeX + offsetX;
-      const y = cumulativeY;
-      const width = widths[row][col];
-
-      const shouldSplit = Math.random() < splitProbability;
-      const rect = createRectangle(x, y, width, height);
-
-      if (shouldSplit) {
-        const [piece1, piece2] = splitRectangle(rect, splitAngleVariation);
-
-        pieces.push({
-          id: `r${row}-c${col}-left`,
-          polygon: piece1,
-          colorIndex: -1, // Assign later
-          isTriangle: splitAngleVariation === 0,
-          row,
-          col: pieceCol++, // Assign sequential col for first piece
-          gridCol: col, // Store original grid column
-          position: 'top',
-        });
-
-        pieces.push({
-          id: `r${row}-c${col}-right`,
-          polygon: piece2,
-          colorIndex: -1, // Assign later
-          isTriangle: splitAngleVariation === 0,
-          row,
-          col: pieceCol++, // Assign sequential col for second piece
-          gridCol: col, // Store original grid column
-          position: 'bottom',
-        });
-      } else {
-        pieces.push({
-          id: `r${row}-c${col}-full`,
-          polygon: rect,
-          colorIndex: -1, // Assign later
-          isTriangle: false,
-          row,
-          col: pieceCol++, // Assign sequential col
-          gridCol: col, // Store original grid column
-          position: 'full',
-        });
-      }
+  let pieces: TessellationPiece[] = [];
+  let currentRow = -1;
+  let pieceCol = 0; // Track piece column index (increments for each piece, not grid cell)
+
+  for (const cell of cells) {
+    const { row, gridCol } = cell;
+    if (row !== currentRow) {
+      currentRow = row;
+      pieceCol = 0;
+    }
 
-      cumulativeX += width;
+    const shouldSplit = random() < splitProbability;
+
+    if (shouldSplit) {
+      const [piece1, piece2] = cell.isRectangle
+        ? splitRectangle(cell.polygon, splitAngleVariation, random)
+        : splitPolygon(cell.polygon, splitAngleVariation, random);
+
+      pieces.push({
+        id: `r${row}-c${gridCol}-left`,
+        polygon: piece1,
+        colorIndex: -1, // Assign later
+        isTriangle: piece1.length === 3 && piece2.length === 3,
+        row,
+        col: pieceCol++, // Assign sequential col for first piece
+        gridCol, // Store original grid column
+        position: 'top',
+      });
+
+      pieces.push({
+        id: `r${row}-c${gridCol}-right`,
+        polygon: piece2,
+        colorIndex: -1, // Assign later
+        isTriangle: piece1.length === 3 && piece2.length === 3,
+        row,
+        col: pieceCol++, // Assign sequential col for second piece
+        gridCol, // Store original grid column
+        position: 'bottom',
+      });
+    } else {
+      pieces.push({
+        id: `r${row}-c${gridCol}-full`,
+        polygon: cell.polygon,
+        colorIndex: -1, // Assign later
+        isTriangle: cell.polygon.length === 3,
+        row,
+        col: pieceCol++, // Assign sequential col
+        gridCol, // Store original grid column
+        position: 'full',
+      });
     }
+  }
+
+  // STEP 2b: Centre the garment outline over the lattice and cut the pieces to it,
+  // then move everything so the outline starts at (0, 0)
+  let outline: TessellationResult['outline'];
+  if (garmentOutline && outlineBounds) {
+    const latticeBounds = calculateBounds(pieces.map(p => p.polygon));
+    const dx = (latticeBounds.minX + latticeBounds.maxX - outlineBounds.minX - outlineBounds.maxX) / 2;
+    const dy = (latticeBounds.minY + latticeBounds.maxY - outlineBounds.minY - outlineBounds.maxY) / 2;
+    const placedOutline = transformPolygon(garmentOutline, dx, dy, 0);
+
+    const originX = outlineBounds.minX + dx;
+    const originY = outlineBounds.minY + dy;
+    outline = transformPolygon(placedOutline, -originX, -originY, 0);
+    pieces = clipPiecesToOutline(pieces, placedOutline).map(piece => ({
+      ...piece,
+      polygon: transformPolygon(piece.polygon, -originX, -originY, 0),
+    }));
+  }
+
+  // STEP 3: Assign colors based on actual polygon adjacency. Locked pieces are
+  // put back afterwards, so what is locked doesn't change the colors drawn.
+  if (config.colorMode === 'balanced') {
+    assignBalancedColors(pieces, colors, sameColorProbability, colorProbabilities, config.colorTolerance ?? DEFAULT_COLOR_TOLERANCE, random);
+  } else {
+    assignColorsToPolygons(pieces, colors, sameColorProbability, colorProbabilities, random);
+  }
 
-    cumulativeY += height;
+  // STEP 4: Put locked pieces back in place of the new pieces of their cells
+  if (config.lockedPieces && config.lockedPieces.length > 0) {
+    const restored = restoreLockedPieces(pieces, config.lockedPieces, colors);
+    pieces = restored.pieces;
+    recolorAroundLocks(pieces, restored.lockedIds, colors, sameColorProbability, colorProbabilities, random);
   }
 
-  // STEP 3: Assign colors based on actual polygon adjacency
-  assignColorsToPolygons(pieces, colors, sameColorProbability, colorProbabilities);
+  // STEP 5: Find the edges along the outside, which get the boundary allowance
+  pieces = markNotches(markBoundaryEdges(pieces));
 
   // Calculate bounds
   const allPolygons = pieces.map(p => p.polygon);
@@ -91,6 +146,7 @@ export function generateTessellation(config: TessellationConfig): TessellationRe
   return {
     pieces,
     config,
+    outline,
     bounds: {
       width: bounds.maxX - bounds.minX,
       height: bounds.maxY - bounds.minY,
@@ -98,6 +154,118 @@ export function generateTessellation(config: TessellationConfig): TessellationRe
   };
 }
 
+/**
+ * Locked pieces still fit their lattice cell if less than this much of them
+ * lies outside it, in mm²
+ */
+const LOCK_TOLERANCE = 0.01;
+
+/**
+ * Smallest leftover of a generated piece kept next to locked pieces, in mm².
+ * Smaller bits are rounding slivers along the locked edges.
+ */
+const MIN_REMAINDER_AREA = 1;
+
+const cellKey = (piece: TessellationPiece) => `${piece.row}:${piece.gridCol}`;
+
+/**
+ * Put locked pieces back into their lattice cells. The generated pieces of a
+ * cell with locks are cut back to what the locks leave free, so a locked half
+ * of a split cell keeps its new other half. Locks that no longer lie inside
+ * their cell (different rows, size or tiling) or whose color no longer exists
+ * are dropped. Returns the pieces and the ids of the locks that were kept.
+ */
+function restoreLockedPieces(
+  pieces: TessellationPiece[],
+  lockedPieces: TessellationPiece[],
+  numColors: number
+): { pieces: TessellationPiece[]; lockedIds: Set<string> } {
+  const generatedByCell = new Map<string, TessellationPiece[]>();
+  for (const piece of pieces) {
+    const key = cellKey(piece);
+    generatedByCell.set(key, [...(generatedByCell.get(key) ?? []), piece]);
+  }
+
+  const lockedByCell = new Map<string, TessellationPiece[]>();
+  for (const piece of lockedPieces) {
+    if (piece.colorIndex < 0 || piece.colorIndex >= numColors) continue;
+    const key = cellKey(piece);
+    const cell = generatedByCell.get(key);
+    const outside = cell
+      ? differencePolygons(piece.polygon, cell.map(p => p.polygon)).reduce((sum, part) => sum + calculatePolygonArea(part), 0)
+      : Infinity;
+    if (outside > LOCK_TOLERANCE) continue;
+    lockedByCell.set(key, [...(lockedByCell.get(key) ?? []), piece]);
+  }
+
+  const lockedIds = new Set([...lockedByCell.values()].flat().map(piece => piece.id));
+  const result: TessellationPiece[] = [];
+  const restored = new Set<string>();
+  for (const piece of pieces) {
+    const key = cellKey(piece);
+    const locked = lockedByCell.get(key);
+    if (!locked) {
+      result.push(piece);
+      continue;
+    }
+
+    if (!restored.has(key)) {
+      restored.add(key);
+      result.push(...locked.map(lockedPiece => ({ ...lockedPiece })));
+    }
+
+    // What the locks leave of this generated piece, wound the same way
+    const sign = Math.sign(signedArea(piece.polygon));
+    const parts = differencePolygons(piece.polygon, locked.map(p => p.polygon))
+      .filter(part => calculatePolygonArea(part) >= MIN_REMAINDER_AREA)
+      .map(part => (Math.sign(signedArea(part)) === sign ? part : [...part].reverse()));
+    parts.forEach((polygon, index) => {
+      const id = parts.length === 1 && !lockedIds.has(piece.id) ? piece.id : `${piece.id}-${index + 1}`;
+      result.push({ ...piece, id, polygon, isTriangle: polygon.length === 3 });
+    });
+  }
+
+  return { pieces: result, lockedIds };
+}
+
+/**
+ * Recolor pieces that share an edge and a color with a locked piece, unless
+ * the pair is exempt (sameColorProbability). Only the clashing pieces draw new
+ * colors, avoiding all their neighbours' colors where possible.
+ */
+function recolorAroundLocks(
+  pieces: TessellationPiece[],
+  lockedIds: Set<string>,
+  numColors: number,
+  sameColorProbability: number,
+  colorProbabilities: number[],
+  random: RandomFn
+): void {
+  const locked = pieces.filter(piece => lockedIds.has(piece.id));
+  for (const piece of pieces) {
+    if (lockedIds.has(piece.id)) continue;
+    const clashes = locked.some(other =>
+      other.colorIndex === piece.colorIndex &&
+      sharesEdge(piece.polygon, other.polygon) &&
+      random() >= sameColorProbability
+    );
+    if (!clashes) continue;
+
+    const neighbourColors = new Set(
+      pieces.filter(other => other !== piece && sharesEdge(piece.polygon, other.polygon)).map(other => other.colorIndex)
+    );
+    const lockedColors = new Set(
+      locked.filter(other => sharesEdge(piece.polygon, other.polygon)).map(other => other.colorIndex)
+    );
+    const allColors = Array.from({ length: numColors }, (_, c) => c);
+    const free = allColors.filter(c => !neighbourColors.has(c));
+    const available = free.length > 0 ? free : allColors.filter(c => !lockedColors.has(c));
+    if (available.length > 0) {
+      piece.colorIndex = weightedRandomColor(available, colorProbabilities, random);
+    }
+  }
+}
+
 /**
  * Assign colors to all polygons based on actual adjacency
  * Two polygons are adjacent if they share an edge
@@ -108,7 +276,8 @@ function assignColorsToPolygons(
   pieces: TessellationPiece[],
   numColors: number,
   sameColorProbability: number,
-  colorProbabilities: number[]
+  colorProbabilities: number[],
+  random: RandomFn
 ): void {
   // Process pieces row by row, left to right
   for (let i = 0; i < pieces.length; i++) {
@@ -125,7 +294,7 @@ function assignColorsToPolygons(
       // Check if pieces share an edge
       if (sharesEdge(piece.polygon, otherPiece.polygon)) {
         // With sameColorProbability chance, allow this color anyway
-        if (Math.random() > sameColorProbability) {
+        if (random() > sameColorProbability) {
           forbiddenColors.add(otherPiece.colorIndex);
         }
       }
@@ -141,10 +310,10 @@ function assignColorsToPolygons(
 
     // Assign a weighted random color from available colors
     if (availableColors.length > 0) {
-      piece.colorIndex = weightedRandomColor(availableColors, colorProbabilities);
+      piece.colorIndex = weightedRandomColor(availableColors, colorProbabilities, random);
     } else {
       // Fallback: if all colors are forbidden (shouldn't happen with 3+ colors), pick randomly
-      piece.colorIndex = Math.floor(Math.random() * numColors);
+      piece.colorIndex = Math.floor(random() * numColors);
     }
   }
 }
@@ -152,7 +321,7 @@ function assignColorsToPolygons(
 /**
  * Select a random color from available colors using weighted probabilities
  */
-function weightedRandomColor(availableColors: number[], colorProbabilities: number[]): number {
+function weightedRandomColor(availableColors: number[], colorProbabilities: number[], random: RandomFn): number {
   // Get weights for available colors only
   const weights = availableColors.map(c => colorProbabilities[c] || 0);
 
@@ -161,16 +330,16 @@ function weightedRandomColor(availableColors: number[], colorProbabilities: numb
 
   // If all weights are 0, use uniform distribution
   if (totalWeight === 0) {
-    return availableColors[Math.floor(Math.random() * availableColors.length)];
+    return availableColors[Math.floor(random() * availableColors.length)];
   }
 
   // Pick a random number between 0 and totalWeight
-  let random = Math.random() * totalWeight;
+  let remaining = random() * totalWeight;
 
   // Find which color this falls into
   for (let i = 0; i < availableColors.length; i++) {
-    random -= weights[i];
-    if (random <= 0) {
+    remaining -= weights[i];
+    if (remaining <= 0) {
       return availableColors[i];
     }
   }
@@ -207,68 +376,126 @@ function sharesEdge(poly1: TessellationPiece['polygon'], poly2: TessellationPiec
 }
 
 /**
- * Generate variable widths for a row
- * Returns an array of widths that maintains the overall row width
+ * Mark the edges of each piece that lie on the outer boundary of the tessellation:
+ * edges not fully covered by edges of other pieces. Coverage is measured along the
+ * edge, so brick rows that meet at T-junctions still count as shared.
  */
-function generateRowWidths(cols: number, baseSize: number, variation: number): number[] {
-  if (variation === 0) {
-    return new Array(cols).fill(baseSize);
-  }
-
-  const widths: number[] = [];
-  const targetTotal = cols * baseSize;
+export function markBoundaryEdges(pieces: TessellationPiece[]): TessellationPiece[] {
+  const nearby = findNearbyPieces(pieces);
+
+  return pieces.map((piece, index) => {
+    const n = piece.polygon.length;
+    const boundaryEdges: number[] = [];
+
+    for (let i = 0; i < n; i++) {
+      const a = piece.polygon[i];
+      const b = piece.polygon[(i + 1) % n];
+      const length = Math.hypot(b.x - a.x, b.y - a.y);
+      if (length === 0) continue;
+
+      // Intervals of this edge covered by collinear edges of neighbouring pieces
+      const covered: [number, number][] = [];
+      for (const other of nearby[index]) {
+        const polygon = pieces[other].polygon;
+        for (let j = 0; j < polygon.length; j++) {
+          const overlap = collinearOverlap(a, b, polygon[j], polygon[(j + 1) % polygon.length]);
+          if (overlap) covered.push(overlap);
+        }
+      }
 
-  // Generate random variations
-  for (let i = 0; i < cols; i++) {
-    // Random factor between (1 - variation) and (1 + variation)
-    const factor = 1 + (Math.random() * 2 - 1) * variation;
-    widths.push(baseSize * factor);
-  }
+      covered.sort((p, q) => p[0] - q[0]);
+      let reached = 0;
+      let gap = 0;
+      for (const [start, end] of covered) {
+        if (start > reached) gap += start - reached;
+        reached = Math.max(reached, end);
+      }
+      gap += length - Math.min(length, reached);
 
-  // Normalize to maintain target total width
-  const currentTotal = widths.reduce((sum, w) => sum + w, 0);
-  const scale = targetTotal / currentTotal;
+      if (gap > BOUNDARY_GAP) boundaryEdges.push(i);
+    }
 
-  return widths.map(w => w * scale);
+    return { ...piece, boundaryEdges };
+  });
 }
 
 /**
- * Generate variable heights for each row
- * Returns an array of heights that maintains the overall total height
+ * Gap between neighbouring notches on one edge, in mm
  */
-function generateRowHeights(rows: number, baseSize: number, variation: number): number[] {
-  if (variation === 0) {
-    return new Array(rows).fill(baseSize);
-  }
+const NOTCH_SPACING = 6;
 
-  const heights: number[] = [];
-  const targetTotal = rows * baseSize;
+/**
+ * Add registration notches to the edges neighbouring pieces share (see sharesEdge).
+ * Both pieces get notches at the same places along the seam, and each seam gets a
+ * notch count that no other seam of either piece uses, so matching counts show
+ * which edges are sewn together.
+ */
+export function markNotches(pieces: TessellationPiece[]): TessellationPiece[] {
+  const nearby = findNearbyPieces(pieces);
+  const notches: Notch[][] = pieces.map(() => []);
+  const usedCounts: Set<number>[] = pieces.map(() => new Set());
+
+  pieces.forEach((piece, i) => {
+    for (const j of nearby[i]) {
+      if (j < i || !sharesEdge(piece.polygon, pieces[j].polygon)) continue;
+
+      const segment = sharedSegment(piece.polygon, pieces[j].polygon);
+      if (!segment) continue;
+
+      let count = 1;
+      while (usedCounts[i].has(count) || usedCounts[j].has(count)) count++;
+      usedCounts[i].add(count);
+      usedCounts[j].add(count);
+
+      // Spread the notches evenly around the middle of the seam
+      const { start, end } = segment;
+      const length = Math.hypot(end.x - start.x, end.y - start.y);
+      const spacing = Math.min(NOTCH_SPACING, length / (count + 1));
+      const normal = edgeNormal(piece.polygon, segment.edge);
+
+      for (let k = 0; k < count; k++) {
+        const t = 0.5 + ((k - (count - 1) / 2) * spacing) / length;
+        const point = { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t };
+        notches[i].push({ point, normal });
+        notches[j].push({ point, normal: { x: -normal.x, y: -normal.y } });
+      }
+    }
+  });
 
-  // Generate random variations
-  for (let i = 0; i < rows; i++) {
-    // Random factor between (1 - variation) and (1 + variation)
-    const factor = 1 + (Math.random() * 2 - 1) * variation;
-    heights.push(baseSize * factor);
-  }
+  return pieces.map((piece, i) => ({ ...piece, notches: notches[i] }));
+}
+
+export interface SeamOptions extends OffsetOptions {
+  boundaryAllowance?: number; // for edges on the outer boundary (default: the seam allowance)
+}
+
+/**
+ * Cut line of a piece: the seam allowance added on every edge, except edges on
+ * the outer boundary which get the boundary (hem or binding) allowance
+ */
+export function pieceCutLine(piece: TessellationPiece, seamAllowance: number, options: SeamOptions = {}): Polygon {
+  const { boundaryAllowance = seamAllowance, ...corners } = options;
 
-  // Normalize to maintain target total height
-  const currentTotal = heights.reduce((sum, h) => sum + h, 0);
-  const scale = targetTotal / currentTotal;
+  if (!piece.boundaryEdges?.length || boundaryAllowance === seamAllowance) {
+    return offsetPolygon(piece.polygon, seamAllowance, corners);
+  }
 
-  return heights.map(h => h * scale);
+  const boundary = new Set(piece.boundaryEdges);
+  const offsets = piece.polygon.map((_, i) => (boundary.has(i) ? boundaryAllowance : seamAllowance));
+  return offsetPolygonEdges(piece.polygon, offsets, corners);
 }
 
 /**
  * Apply seam allowance to all pieces
  */
 export function applySeamAllowance(result: TessellationResult): TessellationResult {
-  const { seamAllowance } = result.config;
+  const { seamAllowance, boundaryAllowance, seamJoin, seamMiterLimit } = result.config;
 
-  if (seamAllowance === 0) return result;
+  if (seamAllowance === 0 && !boundaryAllowance) return result;
 
   const piecesWithSeams = result.pieces.map(piece => ({
     ...piece,
-    polygon: offsetPolygon(piece.polygon, seamAllowance),
+    polygon: pieceCutLine(piece, seamAllowance, { boundaryAllowance, join: seamJoin, miterLimit: seamMiterLimit }),
   }));
 
   const allPolygons = piecesWithSeams.map(p => p.polygon);
@@ -284,6 +511,19 @@ export function applySeamAllowance(result: TessellationResult): TessellationResu
   };
 }
 
+/**
+ * Finished pieces narrower than this can't be sewn reliably, in mm
+ */
+export const MIN_SEWABLE_WIDTH = 10;
+
+/**
+ * Find slivers: pieces whose finished shape is narrower than minWidth everywhere,
+ * i.e. shrinking them by half that width leaves nothing
+ */
+export function findSlivers(result: TessellationResult, minWidth: number = MIN_SEWABLE_WIDTH): TessellationPiece[] {
+  return result.pieces.filter(piece => offsetPolygon(piece.polygon, -minWidth / 2).length === 0);
+}
+
 /**
  * Group pieces by color for separate export/nesting
  */
@@ -2,6 +2,29 @@ export type Point = { x: number; y: number };
 
 export type Polygon = Point[];
 
+/**
+ * Lattice the tessellation is built on
+ */
+export type TilingType = 'brick' | 'hexagon' | 'triangle' | 'tumbling-block' | 'herringbone' | 'basketweave';
+
+/**
+ * Corner style of the cut line where two seam allowance edges meet
+ */
+export type SeamJoin = 'miter' | 'square' | 'round';
+
+/**
+ * Registration notch on a shared edge, in the piece's coordinates
+ */
+export interface Notch {
+  point: Point; // on the sewing line
+  normal: Point; // unit vector pointing out of the piece, towards the cut line
+}
+
+/**
+ * How notches are cut: 'v' takes a small V out of the edge, 'mark' is a short slit
+ */
+export type NotchStyle = 'none' | 'v' | 'mark';
+
 export interface TessellationPiece {
   id: string;
   polygon: Polygon;
@@ -11,26 +34,46 @@ export interface TessellationPiece {
   col: number;
   gridCol: number; // original grid column (col is sequential per row)
   position: 'top' | 'bottom' | 'full'; // for triangles/quads or full rectangle
+  grainline?: number; // degrees, direction the fabric grain runs across the piece (0 = along x, default 90 = vertical)
+  boundaryEdges?: number[]; // edges (vertex i to i + 1) on the outer boundary, cut with the boundary allowance
+  notches?: Notch[]; // registration notches; the notch count on an edge matches the neighbour's
 }
 
+/**
+ * random = one weighted random pass over the pieces, balanced = graph coloring
+ * that holds the color percentages to a tolerance by area
+ */
+export type ColorMode = 'random' | 'balanced';
+
 export interface TessellationConfig {
+  tiling: TilingType; // lattice shape (brick = offset rows of rectangles)
   rows: number;
   cols: number;
   squareSize: number; // in mm or inches - base size
   colors: number; // number of different fabrics
   splitProbability: number; // 0-1, chance a square becomes two pieces
   seamAllowance: number; // in same units as squareSize
-  offsetAmount: number; // 0-1, how much each row is offset (0.5 = half brick)
+  boundaryAllowance?: number; // hem or binding allowance on the outer boundary edges (default: seamAllowance)
+  seamJoin?: SeamJoin; // corner style of the cut line (default 'miter')
+  seamMiterLimit?: number; // miters longer than this many seam allowances are squared off (default 4)
+  offsetAmount: number; // 0-1, how much each row is offset (0.5 = half brick), brick tiling only
   widthVariation: number; // 0-1, how much width can vary (0 = no variation, 1 = +/- 100%)
   heightVariation: number; // 0-1, how much row heights can vary (0 = no variation, 1 = +/- 100%)
   splitAngleVariation: number; // 0-1, how much the split angle varies from 45° (creates quads instead of triangles)
   sameColorProbability: number; // 0-1, chance that same colors can be adjacent (0 = never, 1 = always allowed)
   colorProbabilities: number[]; // dynamic array (0-100), desired percentage for each color (length matches colors)
+  colorMode?: ColorMode; // how colors are assigned to pieces (default 'random')
+  colorTolerance?: number; // balanced mode: how far each color's area share may miss its target, in percentage points (default 2)
+  seed: number; // PRNG seed - the same config and seed always generate the same layout
+  layoutSeed?: number; // seed of the lattice geometry, kept while pieces are rerolled around locked ones (default: seed)
+  lockedPieces?: TessellationPiece[]; // pieces kept with their geometry and color in place of their lattice cell
+  garmentOutline?: Polygon; // garment block in mm; when set the lattice is sized to cover it and clipped to its shape
 }
 
 export interface TessellationResult {
   pieces: TessellationPiece[];
   config: TessellationConfig;
+  outline?: Polygon; // garment outline, positioned over the pieces
   bounds: {
     width: number;
     height: number;
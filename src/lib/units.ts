@@ -0,0 +1,23 @@
+/**
+ * Millimetres per metre and per yard, for converting fabric lengths
+ */
+export const MM_PER_METRE = 1000;
+export const MM_PER_YARD = 914.4;
+
+/**
+ * Format a fabric length in mm as metres and yards, e.g. "1.25 m (1.37 yd)"
+ */
+export function formatFabricLength(lengthMm: number): string {
+  const metres = lengthMm / MM_PER_METRE;
+  const yards = lengthMm / MM_PER_YARD;
+  return `${metres.toFixed(2)} m (${yards.toFixed(2)} yd)`;
+}
+
+/**
+ * Format a fabric area in mm² as square metres and square yards, e.g. "0.42 m² (0.50 sq yd)"
+ */
+export function formatFabricArea(areaMm2: number): string {
+  const squareMetres = areaMm2 / (MM_PER_METRE * MM_PER_METRE);
+  const squareYards = areaMm2 / (MM_PER_YARD * MM_PER_YARD);
+  return `${squareMetres.toFixed(2)} m² (${squareYards.toFixed(2)} sq yd)`;
+}
@@ -0,0 +1,186 @@
+import { TessellationPiece, SeamJoin } from './types';
+import { calculatePolygonArea, calculateBounds } from './geometry';
+import { pieceCutLine } from './tessellation';
+import { PackedResult } from './packing';
+import { MM_PER_METRE, MM_PER_YARD } from './units';
+import { downloadBlob } from './download';
+
+export type PriceUnit = 'metre' | 'yard';
+
+export interface YardageOptions {
+  seamAllowance: number;
+  boundaryAllowance?: number; // for edges on the outer boundary of the quilt (default: seamAllowance)
+  seamJoin?: SeamJoin; // corner style of the cut line (default 'miter')
+  miterLimit?: number; // as a multiple of the seam allowance
+  boltWidth: number; // usable fabric width, in mm
+  prices: number[]; // price per priceUnit, one per palette entry
+  priceUnit: PriceUnit;
+  packedLayouts?: Map<number, PackedResult>; // packed lengths replace the area estimate when available
+  wasteFactor?: number; // extra fabric on top of piece area for the estimate (default 0.25 = 25%)
+}
+
+export interface ColorYardage {
+  colorIndex: number;
+  pieceCount: number;
+  pieceArea: number; // mm², including seam allowance
+  length: number; // mm of bolt needed
+  source: 'packed' | 'estimated';
+  purchaseLength: number; // length rounded up to what a shop will cut, in priceUnit
+  price: number; // per priceUnit
+  cost: number;
+}
+
+export interface YardageEstimate {
+  colors: ColorYardage[];
+  priceUnit: PriceUnit;
+  boltWidth: number;
+  totalLength: number; // mm
+  totalPurchaseLength: number; // in priceUnit
+  totalCost: number;
+}
+
+/**
+ * Shops cut in 0.1 m or 1/8 yd steps
+ */
+const PURCHASE_STEP: Record<PriceUnit, number> = {
+  metre: 0.1,
+  yard: 0.125,
+};
+
+const MM_PER_PRICE_UNIT: Record<PriceUnit, number> = {
+  metre: MM_PER_METRE,
+  yard: MM_PER_YARD,
+};
+
+/**
+ * Bolt length consumed by a packed layout, or null if it can't be cut from this bolt
+ */
+function packedLength(packed: PackedResult, boltWidth: number): number | null {
+  if (packed.mode === 'roll') {
+    return packed.sheetHeight <= boltWidth ? packed.consumedLength ?? packed.sheetWidth : null;
+  }
+
+  // Each sheet is cut off the bolt with whichever side fits across it, preferring the longer one
+  const across = [packed.sheetWidth, packed.sheetHeight].filter(side => side <= boltWidth);
+  if (across.length === 0) return null;
+
+  const acrossSide = Math.max(...across);
+  const alongSide = acrossSide === packed.sheetWidth ? packed.sheetHeight : packed.sheetWidth;
+  // Remnants are already cut, so only fresh sheets come off the bolt
+  return alongSide * packed.sheets.filter(sheet => !sheet.remnant).length;
+}
+
+/**
+ * Estimate fabric needed per color, from packed layouts where available and
+ * otherwise from the pieces' area (with seam allowance) plus a waste factor
+ */
+export function estimateYardage(
+  groups: Map<number, TessellationPiece[]>,
+  options: YardageOptions
+): YardageEstimate {
+  const { seamAllowance, boundaryAllowance, seamJoin, miterLimit, boltWidth, prices, priceUnit, packedLayouts, wasteFactor = 0.25 } = options;
+  const unitLength = MM_PER_PRICE_UNIT[priceUnit];
+  const step = PURCHASE_STEP[priceUnit];
+
+  const colors: ColorYardage[] = Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([colorIndex, pieces]) => {
+      const cutPolygons = pieces.map(piece => pieceCutLine(piece, seamAllowance, { boundaryAllowance, join: seamJoin, miterLimit }));
+      const pieceArea = cutPolygons.reduce((sum, polygon) => sum + calculatePolygonArea(polygon), 0);
+
+      const packed = packedLayouts?.get(colorIndex);
+      const fromPacked = packed ? packedLength(packed, boltWidth) : null;
+
+      let length: number;
+      if (fromPacked !== null) {
+        length = fromPacked;
+      } else {
+        // Never less than the longest piece needs, even when the pieces are small in total
+        const longestPiece = Math.max(0, ...cutPolygons.map(polygon => {
+          const bounds = calculateBounds([polygon]);
+          return Math.min(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+        }));
+        length = Math.max((pieceArea * (1 + wasteFactor)) / boltWidth, longestPiece);
+      }
+
+      // Round up to the shop's cutting step (with a little slack for float error)
+      const purchaseLength = Math.ceil(length / unitLength / step - 1e-9) * step;
+      const price = prices[colorIndex] ?? 0;
+
+      return {
+        colorIndex,
+        pieceCount: pieces.length,
+        pieceArea,
+        length,
+        source: fromPacked !== null ? 'packed' as const : 'estimated' as const,
+        purchaseLength,
+        price,
+        cost: purchaseLength * price,
+      };
+    });
+
+  return {
+    colors,
+    priceUnit,
+    boltWidth,
+    totalLength: colors.reduce((sum, c) => sum + c.length, 0),
+    totalPurchaseLength: colors.reduce((sum, c) => sum + c.purchaseLength, 0),
+    totalCost: colors.reduce((sum, c) => sum + c.cost, 0),
+  };
+}
+
+/**
+ * Shopping list as CSV, one row per color plus a total row
+ */
+export function yardageToCSV(estimate: YardageEstimate, colorNames: string[], palette: string[]): string {
+  const unit = estimate.priceUnit === 'metre' ? 'm' : 'yd';
+  const header = [
+    'Color',
+    'Swatch',
+    'Pieces',
+    'Piece area (m²)',
+    'Length needed (m)',
+    'Length needed (yd)',
+    'Source',
+    `Buy (${unit})`,
+    `Price per ${unit}`,
+    'Cost',
+  ];
+
+  const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  const rows = estimate.colors.map(c => [
+    colorNames[c.colorIndex] ?? `Color ${c.colorIndex + 1}`,
+    palette[c.colorIndex] ?? '',
+    String(c.pieceCount),
+    (c.pieceArea / 1e6).toFixed(3),
+    (c.length / MM_PER_METRE).toFixed(2),
+    (c.length / MM_PER_YARD).toFixed(2),
+    c.source,
+    c.purchaseLength.toFixed(3),
+    c.price.toFixed(2),
+    c.cost.toFixed(2),
+  ]);
+
+  rows.push([
+    'Total',
+    '',
+    String(estimate.colors.reduce((sum, c) => sum + c.pieceCount, 0)),
+    (estimate.colors.reduce((sum, c) => sum + c.pieceArea, 0) / 1e6).toFixed(3),
+    (estimate.totalLength / MM_PER_METRE).toFixed(2),
+    (estimate.totalLength / MM_PER_YARD).toFixed(2),
+    '',
+    estimate.totalPurchaseLength.toFixed(3),
+    '',
+    estimate.totalCost.toFixed(2),
+  ]);
+
+  return [header, ...rows].map(row => row.map(escape).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Download helper for browser
+ */
+export function downloadCSV(csv: string, filename: string): void {
+  downloadBlob(new Blob([csv], { type: 'text/csv' }), filename);
+}